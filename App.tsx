@@ -1,20 +1,41 @@
-import React, { useState, useEffect } from 'react';
-import { Download, Sparkles, Loader2, PlayCircle, RefreshCw, X, Settings, AlertTriangle } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Download, Sparkles, Loader2, PlayCircle, RefreshCw, X, Settings, AlertTriangle, Pause, Play, XCircle, ListVideo, Archive, Frame } from 'lucide-react';
 import Dropzone from './components/Dropzone';
 import ControlPanel from './components/ControlPanel';
-import { ConvertOptions, Resolution, FrameRate, ConversionStatus, LottieFile, GeminiAnalysisResult } from './types';
-import { renderAndConvert } from './services/converter';
+import BackgroundLayer from './components/BackgroundLayer';
+import BatchQueue from './components/BatchQueue';
+import RangeScrubber from './components/RangeScrubber';
+import PreflightPanel from './components/PreflightPanel';
+import OverridesPanel from './components/OverridesPanel';
+import TemplatePanel from './components/TemplatePanel';
+import RenderHistory from './components/RenderHistory';
+import CompareView, { PreviewClock } from './components/CompareView';
+import { ConvertOptions, ConversionStatus, LottieFile, GeminiAnalysisResult, BatchJob, LoadedFile } from './types';
+import { convertAnimation, renderFrame } from './services/converter';
+import { createPauseController, isAbortError, PauseController } from './services/control';
+import { getFileExtension, getOutputFps, isImageExportFormat, isTransparentFormat } from './services/encoders';
+import { bundleBatchResults, createBatchJobs, createTemplateJobs, getOutputFileName, runBatch } from './services/batch';
+import { getDimensions, getPreserveAspectRatio } from './services/sizing';
+import { isDiskStreamingSupported, pickSaveFile } from './services/disk';
+import { createTimeline, getMarkerFrames, getMarkerNames } from './services/range';
+import { createPreflightReport, hasBlockingIssues, validateLottie } from './services/preflight';
+import { applyOverrides, EMPTY_OVERRIDES, PropertyOverrides } from './services/overrides';
+import { Dataset } from './services/template';
+import { clearFileSettings, getFileKey, loadFileOptions, loadLastOptions, restoreOptions, saveFileOptions, saveLastOptions } from './services/presets';
+import { addRender, listRenders, RenderRecord } from './services/history';
+import { TRANSPARENT_CSS } from './services/background';
 import { analyzeAnimation } from './services/gemini';
-import lottie from 'lottie-web';
+import lottie, { AnimationItem } from 'lottie-web';
 
 const App: React.FC = () => {
   const [lottieData, setLottieData] = useState<LottieFile | null>(null);
   const [fileName, setFileName] = useState<string>('');
+  // Colour / text / image edits, applied to a copy for the preview and the export
+  const [overrides, setOverrides] = useState<PropertyOverrides>(EMPTY_OVERRIDES);
   
-  const [options, setOptions] = useState<ConvertOptions>({
-    resolution: Resolution.FHD,
-    fps: FrameRate.FPS_60
-  });
+  // Settings survive reloads; each file also remembers its own (keyed by content hash)
+  const [options, setOptions] = useState<ConvertOptions>(loadLastOptions);
+  const [fileKey, setFileKey] = useState<string | null>(null);
 
   const [status, setStatus] = useState<ConversionStatus>({
     state: 'idle',
@@ -24,54 +45,214 @@ const App: React.FC = () => {
   const [analysis, setAnalysis] = useState<GeminiAnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [previewContainer, setPreviewContainer] = useState<HTMLDivElement | null>(null);
+  const [previewAnim, setPreviewAnim] = useState<AnimationItem | null>(null);
+  // Output view frames the preview like the export (size, fit, background); off shows the bare composition
+  const [outputView, setOutputView] = useState(true);
+  // Single frame drawn by the export renderer, to compare against the SVG preview
+  const [frameRender, setFrameRender] = useState<{ url?: string; seconds: number; error?: string } | null>(null);
+  const [renderingFrame, setRenderingFrame] = useState(false);
+
+  // Batch mode: several files queued and converted one after another
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [batchState, setBatchState] = useState<'idle' | 'running' | 'paused'>('idle');
+  const [isZipping, setIsZipping] = useState(false);
+
+  // Finished renders kept in the browser, and the (up to two) compared next to the preview
+  const [renders, setRenders] = useState<RenderRecord[]>([]);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const previewClock = useRef<PreviewClock>({ seconds: 0, playing: false });
+
+  // Controllers of the running conversion (null when idle)
+  const abortRef = useRef<AbortController | null>(null);
+  const pauseRef = useRef<PauseController | null>(null);
+
+  const refreshRenders = () => {
+    listRenders().then(setRenders).catch((err) => console.warn('Could not read the render history:', err));
+  };
+
+  useEffect(refreshRenders, []);
 
   useEffect(() => {
-    if (lottieData && previewContainer) {
+    setFileKey(null);
+    if (!lottieData) return;
+    // The previous file's in/out points and markers don't apply; its own stored ones may
+    setOptions(clearFileSettings);
+    let cancelled = false;
+    getFileKey(lottieData).then((key) => {
+      if (cancelled) return;
+      const stored = loadFileOptions(key);
+      if (stored) setOptions((current) => restoreOptions(stored, current));
+      setFileKey(key);
+    }).catch(() => {
+      // crypto.subtle only exists on secure origins; files then just don't keep their own settings
+      if (!cancelled) setFileKey(null);
+    });
+    return () => { cancelled = true; };
+  }, [lottieData]);
+
+  useEffect(() => {
+    saveLastOptions(options);
+    if (fileKey) saveFileOptions(fileKey, options);
+  }, [options, fileKey]);
+
+  const renderData = useMemo(
+    () => lottieData && validateLottie(lottieData).length === 0 ? applyOverrides(lottieData, overrides) : lottieData,
+    [lottieData, overrides]
+  );
+
+  useEffect(() => {
+    // Files that fail validation would only crash the player; the pre-flight panel explains why
+    if (renderData && previewContainer && validateLottie(renderData).length === 0) {
       previewContainer.innerHTML = '';
+      // Playback is driven by the range scrubber
       const anim = lottie.loadAnimation({
         container: previewContainer,
         renderer: 'svg',
-        loop: true,
-        autoplay: true,
-        animationData: lottieData,
+        loop: false,
+        autoplay: false,
+        animationData: renderData,
+        rendererSettings: {
+          preserveAspectRatio: getPreserveAspectRatio(options.sizing.fit),
+        },
       });
-      return () => anim.destroy();
+      setPreviewAnim(anim);
+      return () => {
+        setPreviewAnim(null);
+        anim.destroy();
+      };
+    }
+  }, [renderData, previewContainer, options.sizing.fit]);
+
+  // Export range as a time -> frame mapping; null while the in/out points are invalid
+  const timeline = useMemo(() => {
+    if (!lottieData) return null;
+    try {
+      return createTimeline(options.range, lottieData);
+    } catch {
+      return null;
     }
-  }, [lottieData, previewContainer]);
+  }, [lottieData, options.range]);
+
+  const preflight = useMemo(
+    () => renderData ? createPreflightReport(renderData, options) : null,
+    [renderData, options]
+  );
+  const blocked = preflight ? hasBlockingIssues(preflight) : false;
+
+  const comparedRenders = useMemo(
+    () => compareIds.map((id) => renders.find((record) => record.id === id)).filter(Boolean),
+    [compareIds, renders]
+  );
+
+  const outputSize = lottieData
+    ? getDimensions(options.resolution, options.sizing, lottieData.w, lottieData.h)
+    : null;
+
+  // Frame renders go stale with the file; revoke the old one when replacing or clearing it
+  useEffect(() => {
+    const url = frameRender?.url;
+    return () => { if (url) URL.revokeObjectURL(url); };
+  }, [frameRender]);
+
+  const previewSize = outputView && outputSize ? outputSize : lottieData ? { w: lottieData.w, h: lottieData.h } : { w: 16, h: 9 };
 
   const handleFileLoaded = (data: any, name: string) => {
     setLottieData(data);
+    setOverrides(EMPTY_OVERRIDES);
+    setFrameRender(null);
     setFileName(name.replace('.json', ''));
     setStatus({ state: 'idle', progress: 0 });
     setAnalysis(null);
   };
 
+  const handleFilesLoaded = (files: LoadedFile[]) => {
+    setJobs(createBatchJobs(files));
+    setLottieData(null);
+    setAnalysis(null);
+  };
+
+  // Every row becomes a batch job rendering the template (with the current overrides)
+  const handleTemplateJobs = (dataset: Dataset, pattern: string) => {
+    if (!renderData) return;
+    setJobs(createTemplateJobs({ data: renderData, name: fileName }, dataset, pattern));
+    setLottieData(null);
+    setAnalysis(null);
+  };
+
   const handleReset = () => {
+    abortRef.current?.abort();
+    setJobs([]);
     setLottieData(null);
+    setOverrides(EMPTY_OVERRIDES);
+    setFrameRender(null);
     setFileName('');
     setStatus({ state: 'idle', progress: 0 });
     setAnalysis(null);
   };
 
   const handleConvert = async () => {
-    if (!lottieData) return;
+    if (!renderData || blocked) return;
+
+    // Ask for the destination first: the save dialog needs the click's user activation
+    let fileHandle: FileSystemFileHandle | undefined;
+    if (options.streamToDisk && isDiskStreamingSupported()) {
+      const picked = await pickSaveFile(getOutputFileName(fileName, options), options.format);
+      if (!picked) return;
+      fileHandle = picked;
+    }
+
+    const abortController = new AbortController();
+    const pauser = createPauseController();
+    abortRef.current = abortController;
+    pauseRef.current = pauser;
+
+    const startedAt = performance.now();
+    let encoder = getFileExtension(options.format).toUpperCase();
+    // Size of the last encoding pass (GIF / WebP may shrink to fit their size budget)
+    let renderedSize = { w: 0, h: 0 };
 
     try {
       setStatus({ state: 'rendering', progress: 0, message: 'Initializing Renderer...' });
       
-      const url = await renderAndConvert(
-        lottieData, 
+      const blob = await convertAnimation(
+        renderData,
         options, 
-        (msg, pct) => setStatus({ state: 'rendering', progress: pct, message: msg })
+        (progress) => {
+          if (progress.encoder) encoder = progress.encoder;
+          if (progress.width && progress.height) renderedSize = { w: progress.width, h: progress.height };
+          setStatus({ state: pauser.paused ? 'paused' : 'rendering', progress: progress.percent, message: progress.message });
+        },
+        { signal: abortController.signal, pauser, fileHandle }
       );
+      const url = URL.createObjectURL(blob);
+
+      // Files streamed to disk are already saved where the user chose
+      if (!fileHandle) {
+        addRender(blob, {
+          fileName,
+          outputName: getOutputFileName(fileName, options),
+          encoder,
+          width: renderedSize.w,
+          height: renderedSize.h,
+          durationSeconds: isImageExportFormat(options.format) ? 0 : timeline?.durationSeconds ?? 0,
+          renderSeconds: (performance.now() - startedAt) / 1000,
+        }, options)
+          .then(refreshRenders)
+          .catch((err) => console.warn('Could not add the render to the history:', err));
+      }
 
       setStatus({ 
         state: 'completed', 
         progress: 100, 
-        message: 'Conversion Complete!', 
+        message: fileHandle ? `Saved to ${fileHandle.name}` : 'Conversion Complete!', 
         outputUrl: url 
       });
     } catch (error: any) {
+      if (isAbortError(error)) {
+        setStatus({ state: 'cancelled', progress: 0, message: 'Conversion cancelled.' });
+        return;
+      }
+
       console.error(error);
       let errMsg = "An unexpected error occurred.";
       
@@ -86,9 +267,101 @@ const App: React.FC = () => {
       }
 
       setStatus({ state: 'error', progress: 0, error: errMsg });
+    } finally {
+      if (abortRef.current === abortController) {
+        abortRef.current = null;
+        pauseRef.current = null;
+      }
+    }
+  };
+
+  const handleRenderFrame = async (seconds: number) => {
+    if (!renderData || blocked) return;
+    setRenderingFrame(true);
+    try {
+      setFrameRender({ url: await renderFrame(renderData, options, seconds), seconds });
+    } catch (error: any) {
+      setFrameRender({ seconds, error: error?.message ?? 'Could not render the frame.' });
+    } finally {
+      setRenderingFrame(false);
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handlePauseToggle = () => {
+    const pauser = pauseRef.current;
+    if (!pauser) return;
+
+    if (pauser.paused) {
+      pauser.resume();
+      setStatus(prev => ({ ...prev, state: 'rendering', message: 'Resuming...' }));
+    } else {
+      pauser.pause();
+      setStatus(prev => ({ ...prev, state: 'paused', message: `Paused • ${prev.message ?? ''}` }));
     }
   };
 
+  const updateJob = (id: string, patch: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+  };
+
+  const handleRunBatch = async () => {
+    const abortController = new AbortController();
+    const pauser = createPauseController();
+    abortRef.current = abortController;
+    pauseRef.current = pauser;
+    setBatchState('running');
+
+    try {
+      await runBatch(
+        jobs,
+        options,
+        (id, jobStatus) => updateJob(id, { status: jobStatus }),
+        { signal: abortController.signal, pauser }
+      );
+    } finally {
+      abortRef.current = null;
+      pauseRef.current = null;
+      setBatchState('idle');
+    }
+  };
+
+  const handleBatchPauseToggle = () => {
+    const pauser = pauseRef.current;
+    if (!pauser) return;
+
+    if (pauser.paused) {
+      pauser.resume();
+      setBatchState('running');
+    } else {
+      pauser.pause();
+      setBatchState('paused');
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    setIsZipping(true);
+    try {
+      const zip = await bundleBatchResults(jobs, options);
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `lottie2mp4_batch_${jobs.length}_files.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to build the ZIP archive.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const completedJobs = jobs.filter(job => job.status.state === 'completed').length;
+
   const handleAnalyze = async () => {
     if (!lottieData) return;
     setIsAnalyzing(true);
@@ -119,7 +392,93 @@ const App: React.FC = () => {
       </header>
 
       <main className="max-w-6xl mx-auto px-6 py-10">
-        {!lottieData ? (
+        {jobs.length > 0 ? (
+          <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+
+            {/* Left Column: Queue */}
+            <div className="lg:col-span-5">
+              <div className="bg-dark-800 rounded-2xl border border-gray-700 overflow-hidden shadow-2xl">
+                <div className="p-4 bg-gray-900 border-b border-gray-700 flex justify-between items-center">
+                  <h3 className="font-semibold text-gray-200 flex items-center">
+                    <ListVideo className="w-5 h-5 mr-2 text-brand-500" />
+                    Batch Queue <span className="ml-2 text-xs font-mono text-gray-500">{completedJobs}/{jobs.length} done</span>
+                  </h3>
+                  <button onClick={handleReset} className="text-gray-400 hover:text-white p-1 hover:bg-gray-700 rounded-md transition">
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
+                <div className="px-4 max-h-[640px] overflow-y-auto">
+                  <BatchQueue
+                    jobs={jobs}
+                    baseOptions={options}
+                    onOverridesChange={(id, overrides) => updateJob(id, { overrides })}
+                    onRemove={(id) => setJobs(prev => prev.filter(job => job.id !== id))}
+                    disabled={batchState !== 'idle'}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Right Column: Shared Settings & Run */}
+            <div className="lg:col-span-7 space-y-6">
+              <div className="bg-dark-800 p-8 rounded-2xl border border-gray-700 shadow-xl">
+                <h3 className="text-xl font-bold mb-6 flex items-center">
+                  <Settings className="w-6 h-6 mr-2 text-brand-500" />
+                  Default Settings
+                </h3>
+
+                <ControlPanel 
+                  options={options} 
+                  setOptions={setOptions} 
+                  disabled={batchState !== 'idle'} 
+                />
+
+                <div className="mt-8 space-y-4">
+                  {batchState === 'idle' ? (
+                    <button
+                      onClick={handleRunBatch}
+                      disabled={completedJobs === jobs.length}
+                      className="w-full py-4 bg-brand-600 hover:bg-brand-500 text-white rounded-xl font-bold text-lg shadow-lg shadow-brand-500/20 transition-all transform active:scale-95 flex items-center justify-center disabled:opacity-50 disabled:pointer-events-none"
+                    >
+                      <PlayCircle className="w-6 h-6 mr-2 fill-current" />
+                      {completedJobs > 0 ? 'Convert Remaining' : `Convert ${jobs.length} Files`}
+                    </button>
+                  ) : (
+                    <div className="flex items-center justify-center space-x-2">
+                      <button
+                        onClick={handleBatchPauseToggle}
+                        className="flex items-center px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-sm font-medium transition"
+                      >
+                        {batchState === 'paused' ? (
+                          <><Play className="w-4 h-4 mr-1" /> Resume</>
+                        ) : (
+                          <><Pause className="w-4 h-4 mr-1" /> Pause</>
+                        )}
+                      </button>
+                      <button
+                        onClick={handleCancel}
+                        className="flex items-center px-4 py-2 bg-red-900/40 hover:bg-red-800/60 text-red-200 rounded-lg text-sm font-medium transition"
+                      >
+                        <XCircle className="w-4 h-4 mr-1" /> Cancel Batch
+                      </button>
+                    </div>
+                  )}
+
+                  {completedJobs > 0 && (
+                    <button
+                      onClick={handleDownloadZip}
+                      disabled={isZipping || batchState !== 'idle'}
+                      className="w-full py-3 bg-green-600 hover:bg-green-500 text-white rounded-xl font-bold shadow-lg shadow-green-500/20 transition-all flex items-center justify-center disabled:opacity-50"
+                    >
+                      {isZipping ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Archive className="w-5 h-5 mr-2" />}
+                      Download {completedJobs} Result{completedJobs === 1 ? '' : 's'} as ZIP
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        ) : !lottieData ? (
           <div className="max-w-xl mx-auto mt-20 space-y-8">
             <div className="text-center space-y-4">
               <h2 className="text-4xl font-extrabold bg-clip-text text-transparent bg-gradient-to-r from-brand-400 to-purple-500">
@@ -130,7 +489,8 @@ const App: React.FC = () => {
                 Support for 120fps, 4K resolution, and AI analysis.
               </p>
             </div>
-            <Dropzone onFileLoaded={handleFileLoaded} disabled={false} />
+            <Dropzone onFileLoaded={handleFileLoaded} onFilesLoaded={handleFilesLoaded} disabled={false} />
+            <RenderHistory renders={renders} onChange={refreshRenders} />
           </div>
         ) : (
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
@@ -140,18 +500,95 @@ const App: React.FC = () => {
               <div className="bg-dark-800 rounded-2xl border border-gray-700 overflow-hidden shadow-2xl">
                 <div className="p-4 bg-gray-900 border-b border-gray-700 flex justify-between items-center">
                   <h3 className="font-semibold text-gray-200 truncate pr-4">{fileName}.json</h3>
-                  <button onClick={handleReset} className="text-gray-400 hover:text-white p-1 hover:bg-gray-700 rounded-md transition">
-                    <X className="w-5 h-5" />
-                  </button>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => setOutputView(!outputView)}
+                      className={`flex items-center px-2 py-1 rounded-md text-xs font-mono transition ${outputView ? 'bg-brand-600 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-700'}`}
+                      title={outputView ? 'Showing the output frame and background; click for the bare composition' : 'Preview the output frame and background'}
+                    >
+                      <Frame className="w-4 h-4 mr-1" />
+                      {outputView && outputSize ? `${outputSize.w}×${outputSize.h}` : `${lottieData.w}×${lottieData.h}`}
+                    </button>
+                    <button onClick={handleReset} className="text-gray-400 hover:text-white p-1 hover:bg-gray-700 rounded-md transition">
+                      <X className="w-5 h-5" />
+                    </button>
+                  </div>
                 </div>
-                <div className="aspect-video bg-gray-900/50 flex items-center justify-center p-4 relative">
-                   <div 
+                <div className="bg-gray-900/50 flex items-center justify-center p-4">
+                  {/* Framed to the output aspect ratio */}
+                  <div 
+                    className="relative max-w-full overflow-hidden"
+                    style={{ 
+                      aspectRatio: `${previewSize.w} / ${previewSize.h}`,
+                      width: previewSize.h > previewSize.w ? 'auto' : '100%',
+                      height: previewSize.h > previewSize.w ? '480px' : 'auto',
+                    }}
+                  >
+                    {/* Same background the export will be composited on */}
+                    <BackgroundLayer 
+                      background={options.background} 
+                      transparent={!outputView || isTransparentFormat(options.format)} 
+                    />
+                    <div 
                       ref={setPreviewContainer} 
-                      className="w-full h-full"
-                   />
+                      className="w-full h-full relative"
+                    />
+                  </div>
                 </div>
+                <RangeScrubber
+                  anim={previewAnim}
+                  timeline={timeline}
+                  onClock={(seconds, playing) => { previewClock.current = { seconds, playing }; }}
+                  fps={getOutputFps(options.format, options.fps, options.animated)}
+                  markers={getMarkerFrames(lottieData)}
+                  onRenderFrame={blocked || status.state === 'rendering' || status.state === 'paused' ? undefined : handleRenderFrame}
+                  renderingFrame={renderingFrame}
+                />
+                {frameRender && (
+                  <div className="border-t border-gray-700 p-4 space-y-2">
+                    <div className="flex items-center justify-between text-xs text-gray-400">
+                      <span>Export renderer · {frameRender.seconds.toFixed(3)}s</span>
+                      <button onClick={() => setFrameRender(null)} className="text-gray-400 hover:text-white p-1 hover:bg-gray-700 rounded-md transition">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {frameRender.error ? (
+                      <p className="text-xs text-red-300">{frameRender.error}</p>
+                    ) : (
+                      <img
+                        src={frameRender.url}
+                        alt={`Frame at ${frameRender.seconds.toFixed(3)}s`}
+                        className="w-full max-h-[480px] object-contain"
+                        style={{ background: TRANSPARENT_CSS }}
+                      />
+                    )}
+                  </div>
+                )}
               </div>
 
+              {comparedRenders.length > 0 && (
+                <CompareView records={comparedRenders} clock={previewClock} onClose={() => setCompareIds([])} />
+              )}
+
+              {validateLottie(lottieData).length === 0 && (
+                <OverridesPanel
+                  animation={lottieData}
+                  overrides={overrides}
+                  onChange={setOverrides}
+                  disabled={status.state === 'rendering' || status.state === 'paused'}
+                />
+              )}
+
+              {renderData && validateLottie(renderData).length === 0 && (
+                <TemplatePanel
+                  animation={renderData}
+                  templateName={fileName}
+                  options={options}
+                  onCreateJobs={handleTemplateJobs}
+                  disabled={status.state === 'rendering' || status.state === 'paused'}
+                />
+              )}
+
               {/* Gemini AI Section */}
               <div className="bg-gradient-to-br from-indigo-900/30 to-purple-900/30 rounded-2xl border border-indigo-500/30 p-6 backdrop-blur-sm">
                 <div className="flex items-center justify-between mb-4">
@@ -196,14 +633,21 @@ const App: React.FC = () => {
                 <ControlPanel 
                   options={options} 
                   setOptions={setOptions} 
-                  disabled={status.state !== 'idle' && status.state !== 'completed' && status.state !== 'error'} 
+                  disabled={status.state !== 'idle' && status.state !== 'completed' && status.state !== 'error' && status.state !== 'cancelled'} 
+                  sourceWidth={lottieData.w}
+                  sourceHeight={lottieData.h}
+                  durationSeconds={timeline?.durationSeconds}
+                  markers={getMarkerNames(lottieData)}
                 />
 
                 <div className="mt-8 space-y-4">
-                  {status.state === 'idle' || status.state === 'error' ? (
+                  {preflight && <PreflightPanel report={preflight} />}
+
+                  {status.state === 'idle' || status.state === 'error' || status.state === 'cancelled' ? (
                      <button
                       onClick={handleConvert}
-                      className="w-full py-4 bg-brand-600 hover:bg-brand-500 text-white rounded-xl font-bold text-lg shadow-lg shadow-brand-500/20 transition-all transform active:scale-95 flex items-center justify-center"
+                      disabled={blocked}
+                      className="w-full py-4 bg-brand-600 hover:bg-brand-500 text-white rounded-xl font-bold text-lg shadow-lg shadow-brand-500/20 transition-all transform active:scale-95 flex items-center justify-center disabled:opacity-50 disabled:pointer-events-none"
                     >
                       {status.state === 'error' ? (
                         <>
@@ -222,27 +666,53 @@ const App: React.FC = () => {
                        {status.state === 'completed' ? (
                          <a 
                             href={status.outputUrl} 
-                            download={`${fileName}_${options.resolution}_${options.fps}fps.mp4`}
+                            download={getOutputFileName(fileName, options)}
                             className="flex items-center px-8 py-3 bg-green-600 hover:bg-green-500 text-white rounded-lg font-bold shadow-lg shadow-green-500/20 transition-all animate-pulse-fast"
                          >
                             <Download className="w-5 h-5 mr-2" />
-                            Download MP4
+                            Download {getFileExtension(options.format).toUpperCase()}
                          </a>
                        ) : (
                          <>
-                            <Loader2 className="w-8 h-8 text-brand-500 animate-spin" />
+                            {status.state === 'paused' ? (
+                              <Pause className="w-8 h-8 text-amber-400" />
+                            ) : (
+                              <Loader2 className="w-8 h-8 text-brand-500 animate-spin" />
+                            )}
                             <div className="w-3/4 max-w-sm h-2 bg-gray-700 rounded-full overflow-hidden">
                               <div 
-                                className="h-full bg-brand-500 transition-all duration-300 ease-out"
+                                className={`h-full transition-all duration-300 ease-out ${status.state === 'paused' ? 'bg-amber-400' : 'bg-brand-500'}`}
                                 style={{ width: `${status.progress}%` }}
                               />
                             </div>
+                            <div className="flex items-center space-x-2 pt-1">
+                              <button
+                                onClick={handlePauseToggle}
+                                className="flex items-center px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-xs font-medium transition"
+                              >
+                                {status.state === 'paused' ? (
+                                  <><Play className="w-4 h-4 mr-1" /> Resume</>
+                                ) : (
+                                  <><Pause className="w-4 h-4 mr-1" /> Pause</>
+                                )}
+                              </button>
+                              <button
+                                onClick={handleCancel}
+                                className="flex items-center px-3 py-1.5 bg-red-900/40 hover:bg-red-800/60 text-red-200 rounded-lg text-xs font-medium transition"
+                              >
+                                <XCircle className="w-4 h-4 mr-1" /> Cancel
+                              </button>
+                            </div>
                          </>
                        )}
                        <p className="text-gray-300 font-mono text-sm mt-2">{status.message}</p>
                     </div>
                   )}
 
+                  {status.state === 'cancelled' && (
+                    <p className="text-center text-gray-400 font-mono text-sm">{status.message}</p>
+                  )}
+
                   {status.error && (
                     <div className="p-4 bg-red-900/20 border border-red-500/30 text-red-300 rounded-lg text-sm flex items-start">
                       <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
@@ -252,6 +722,13 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              <RenderHistory
+                renders={renders}
+                onChange={refreshRenders}
+                compareIds={compareIds}
+                onCompareChange={setCompareIds}
+              />
+
               {/* Info Note */}
               <div className="text-xs text-gray-500 text-center px-8">
                 <p>Powered by native WebCodecs. 4K @ 120fps supported.</p>
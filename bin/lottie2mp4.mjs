@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+// Launcher for the lottie2mp4 CLI. Vite runs the TypeScript sources in Node and
+// also serves the page that headless Chrome converts in (cli/headless.html).
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+
+const server = await createServer({
+  root,
+  logLevel: 'error',
+  appType: 'mpa',
+  server: { host: '127.0.0.1', port: 0, hmr: false },
+});
+
+let exitCode = 2;
+try {
+  const { run } = await server.ssrLoadModule('/cli/main.ts');
+  exitCode = await run(process.argv.slice(2), server);
+} catch (err) {
+  process.stderr.write(`${JSON.stringify({ error: { code: 'INTERNAL', message: err instanceof Error ? err.message : String(err) } })}\n`);
+} finally {
+  await server.close();
+}
+process.exit(exitCode);
@@ -0,0 +1,150 @@
+import { spawn } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+// Headless Chrome plus a minimal DevTools protocol client (flat sessions over one
+// WebSocket). Chrome is needed for WebCodecs, so there is no pure-Node fallback.
+
+export interface CdpSession {
+  send: (method: string, params?: Record<string, unknown>) => Promise<any>;
+  // Returns an unsubscribe function
+  on: (method: string, listener: (params: any) => void) => () => void;
+}
+
+export interface Browser {
+  openPage: () => Promise<CdpSession>;
+  close: () => Promise<void>;
+}
+
+const CHROME_CANDIDATES: Partial<Record<NodeJS.Platform, string[]>> = {
+  linux: ['/usr/bin/google-chrome', '/usr/bin/google-chrome-stable', '/usr/bin/chromium', '/usr/bin/chromium-browser', '/snap/bin/chromium'],
+  darwin: [
+    '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+    '/Applications/Chromium.app/Contents/MacOS/Chromium',
+  ],
+  win32: [
+    'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+    'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
+  ],
+};
+
+const LAUNCH_TIMEOUT_MS = 30_000;
+
+export const findChrome = (): string | null =>
+  process.env.CHROME_PATH ?? (CHROME_CANDIDATES[process.platform] ?? []).find((candidate) => existsSync(candidate)) ?? null;
+
+const connect = async (url: string) => {
+  const socket = new WebSocket(url);
+  await new Promise<void>((resolve, reject) => {
+    socket.addEventListener('open', () => resolve(), { once: true });
+    socket.addEventListener('error', () => reject(new Error(`Could not connect to Chrome at ${url}`)), { once: true });
+  });
+
+  let nextId = 1;
+  const pending = new Map<number, { resolve: (result: any) => void; reject: (err: Error) => void }>();
+  const listeners = new Set<(method: string, params: any, sessionId?: string) => void>();
+
+  socket.addEventListener('message', (event) => {
+    const message = JSON.parse(String(event.data));
+    if (message.id !== undefined) {
+      const request = pending.get(message.id);
+      pending.delete(message.id);
+      if (message.error) request?.reject(new Error(message.error.message));
+      else request?.resolve(message.result);
+    } else {
+      for (const listener of listeners) listener(message.method, message.params, message.sessionId);
+    }
+  });
+  socket.addEventListener('close', () => {
+    for (const { reject } of pending.values()) reject(new Error("Chrome closed the connection"));
+    pending.clear();
+  });
+
+  const send = (method: string, params: Record<string, unknown> = {}, sessionId?: string) =>
+    new Promise<any>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      socket.send(JSON.stringify({ id, method, params, sessionId }));
+    });
+
+  const session = (sessionId?: string): CdpSession => ({
+    send: (method, params) => send(method, params, sessionId),
+    on: (method, listener) => {
+      const filter = (m: string, params: any, from?: string) => {
+        if (m === method && from === sessionId) listener(params);
+      };
+      listeners.add(filter);
+      return () => listeners.delete(filter);
+    },
+  });
+
+  return { session, close: () => socket.close() };
+};
+
+// Chrome prints its DevTools endpoint on stderr once it is ready
+const waitForEndpoint = (stderr: NodeJS.ReadableStream) =>
+  new Promise<string>((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => reject(new Error(`Chrome did not start within ${LAUNCH_TIMEOUT_MS / 1000}s`)), LAUNCH_TIMEOUT_MS);
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString();
+      const match = output.match(/DevTools listening on (ws:\/\/\S+)/);
+      if (match) {
+        clearTimeout(timer);
+        stderr.off('data', onData);
+        resolve(match[1]);
+      }
+    };
+    stderr.on('data', onData);
+    stderr.once('end', () => {
+      clearTimeout(timer);
+      reject(new Error(`Chrome exited during startup:\n${output.trim()}`));
+    });
+  });
+
+export const launchChrome = async (executable: string): Promise<Browser> => {
+  const profile = await mkdtemp(path.join(tmpdir(), 'lottie2mp4-'));
+  const chrome = spawn(executable, [
+    '--headless=new',
+    '--remote-debugging-port=0',
+    `--user-data-dir=${profile}`,
+    '--no-first-run',
+    '--no-default-browser-check',
+    '--mute-audio',
+    // Long renders must not be throttled as a background tab
+    '--disable-background-timer-throttling',
+    '--disable-renderer-backgrounding',
+  ], { stdio: ['ignore', 'ignore', 'pipe'] });
+
+  const cleanup = async () => {
+    if (chrome.exitCode === null) {
+      const exited = new Promise((resolve) => chrome.once('exit', resolve));
+      chrome.kill();
+      await exited;
+    }
+    await rm(profile, { recursive: true, force: true });
+  };
+
+  let connection: Awaited<ReturnType<typeof connect>>;
+  try {
+    connection = await connect(await waitForEndpoint(chrome.stderr!));
+  } catch (err) {
+    await cleanup();
+    throw err;
+  }
+  const browser = connection.session();
+
+  return {
+    openPage: async () => {
+      const { targetId } = await browser.send('Target.createTarget', { url: 'about:blank' });
+      const { sessionId } = await browser.send('Target.attachToTarget', { targetId, flatten: true });
+      return connection.session(sessionId);
+    },
+    close: async () => {
+      connection.close();
+      await cleanup();
+    },
+  };
+};
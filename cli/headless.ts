@@ -0,0 +1,58 @@
+import { LottieFile } from '../types';
+import { convertAnimation } from '../services/converter';
+import { DEFAULT_OPTIONS, mergeOptions, OptionOverrides } from '../services/options';
+import { createPreflightReport } from '../services/preflight';
+import { getOutputFileName } from '../services/batch';
+
+// Page-side half of the CLI: runs the regular browser pipeline and keeps the
+// result until the CLI has pulled it out in chunks.
+
+export interface HeadlessResult {
+  fileName: string;
+  bytes: number;
+  warnings: string[];
+}
+
+export interface HeadlessApi {
+  convert: (name: string, data: LottieFile, overrides: OptionOverrides) => Promise<HeadlessResult>;
+  // Base64 slice of the last output (DevTools messages have a size cap)
+  readChunk: (offset: number, length: number) => Promise<string>;
+}
+
+declare global {
+  interface Window {
+    lottie2mp4: HeadlessApi;
+    // Installed by the CLI with Runtime.addBinding
+    lottie2mp4Progress?: (payload: string) => void;
+  }
+}
+
+let output: Blob | null = null;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+window.lottie2mp4 = {
+  convert: async (name, data, overrides) => {
+    output = null;
+    const options = mergeOptions(DEFAULT_OPTIONS, overrides);
+    const warnings = createPreflightReport(data, options).issues
+      .filter((issue) => issue.severity === 'warning')
+      .map((issue) => issue.message);
+
+    output = await convertAnimation(data, options, ({ message, percent }) =>
+      window.lottie2mp4Progress?.(JSON.stringify({ message, percent }))
+    );
+
+    return { fileName: getOutputFileName(name, options), bytes: output.size, warnings };
+  },
+  readChunk: async (offset, length) => {
+    if (!output) throw new Error("Nothing has been converted yet");
+    return toBase64(new Uint8Array(await output.slice(offset, offset + length).arrayBuffer()));
+  },
+};
@@ -0,0 +1,305 @@
+import { parseArgs } from 'node:util';
+import * as fs from 'node:fs/promises';
+import path from 'node:path';
+import type { ViteDevServer } from 'vite';
+import { BackgroundType, Codec, FrameRate, LottieFile, OutputFormat, RendererKind, Resolution } from '../types';
+import type { OptionOverrides } from '../services/options';
+import { inlineImageAssets, normalizePath } from '../services/assets';
+import type { HeadlessResult } from './headless';
+import { Browser, CdpSession, findChrome, launchChrome } from './chrome';
+
+// lottie2mp4 CLI: converts Lottie JSON files in headless Chrome, using the same
+// pipeline as the web app. Results are printed as JSON lines on stdout, errors as
+// JSON lines on stderr. Exit codes: 0 success, 1 some files failed, 2 nothing ran.
+
+const FRAME_RATES = Object.values(FrameRate).filter((value): value is FrameRate => typeof value === 'number');
+
+const USAGE = `Usage: lottie2mp4 <input...> [options]
+
+Inputs are Lottie .json files or glob patterns ("animations/**/*.json").
+
+Options:
+  -o, --out <path>          Output file (single input) or directory. Default: next to each input
+  -f, --format <format>     ${Object.values(OutputFormat).join(' | ')} (default: mp4)
+  -r, --resolution <tier>   ${Object.values(Resolution).join(' | ')} (default: 1080p)
+      --fps <n>             ${FRAME_RATES.join(' | ')} (default: 60)
+  -c, --codec <codec>       ${Object.values(Codec).join(' | ')} (default: avc, or the first one the format allows)
+      --renderer <kind>     ${Object.values(RendererKind).join(' | ')} (default: auto)
+      --background <color>  Solid background colour (default: #ffffff)
+      --config <file>       JSON file with ConvertOptions overrides, applied before the flags above
+      --chrome <path>       Chrome/Chromium executable (default: $CHROME_PATH or auto-detected)
+  -q, --quiet               No progress output
+  -h, --help                Show this help
+`;
+
+type ErrorCode =
+  | 'USAGE'
+  | 'UNSUPPORTED_NODE'
+  | 'NO_INPUT'
+  | 'CHROME_NOT_FOUND'
+  | 'CHROME_FAILED'
+  | 'READ_FAILED'
+  | 'INVALID_LOTTIE'
+  | 'CONVERSION_FAILED'
+  | 'WRITE_FAILED';
+
+class CliError extends Error {
+  constructor(readonly code: ErrorCode, message: string, readonly input?: string) {
+    super(message);
+  }
+}
+
+interface CliArgs {
+  inputs: string[];
+  out?: string;
+  overrides: OptionOverrides;
+  chrome?: string;
+  quiet: boolean;
+  help: boolean;
+}
+
+// Output is pulled from the page in slices of this many bytes
+const CHUNK_BYTES = 4 * 1024 * 1024;
+const PAGE_READY_TIMEOUT_MS = 60_000;
+const PROGRESS_INTERVAL_MS = 1000;
+
+const parseChoice = <T extends string | number>(flag: string, value: string | undefined, allowed: T[]): T | undefined => {
+  if (value === undefined) return undefined;
+  const match = allowed.find((choice) => String(choice).toLowerCase() === value.toLowerCase());
+  if (match === undefined) throw new CliError('USAGE', `--${flag} must be one of: ${allowed.join(', ')}`);
+  return match;
+};
+
+const readJson = async (file: string, code: ErrorCode) => {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (err) {
+    throw new CliError(code, `Could not read ${file}: ${err instanceof Error ? err.message : err}`, file);
+  }
+};
+
+const parseCliArgs = async (argv: string[]): Promise<CliArgs> => {
+  let parsed: ReturnType<typeof parseArgs>;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o' },
+        format: { type: 'string', short: 'f' },
+        resolution: { type: 'string', short: 'r' },
+        fps: { type: 'string' },
+        codec: { type: 'string', short: 'c' },
+        renderer: { type: 'string' },
+        background: { type: 'string' },
+        config: { type: 'string' },
+        chrome: { type: 'string' },
+        quiet: { type: 'boolean', short: 'q' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    throw new CliError('USAGE', err instanceof Error ? err.message : String(err));
+  }
+  const values = parsed.values as Record<string, string | boolean | undefined>;
+  const flag = (name: string) => values[name] as string | undefined;
+
+  const overrides: OptionOverrides = values.config ? await readJson(flag('config')!, 'USAGE') : {};
+  const format = parseChoice('format', flag('format'), Object.values(OutputFormat));
+  const resolution = parseChoice('resolution', flag('resolution'), Object.values(Resolution));
+  const fps = parseChoice('fps', flag('fps'), FRAME_RATES.map(String));
+  const codec = parseChoice('codec', flag('codec'), Object.values(Codec));
+  const renderer = parseChoice('renderer', flag('renderer'), Object.values(RendererKind));
+
+  if (format) overrides.format = format;
+  if (resolution) overrides.resolution = resolution;
+  if (fps) overrides.fps = Number(fps) as FrameRate;
+  if (codec) overrides.codec = codec;
+  if (renderer) overrides.renderer = renderer;
+  if (flag('background')) overrides.background = { ...overrides.background, type: BackgroundType.SOLID, color: flag('background') };
+  // There is no file picker here; output always comes back through the page
+  overrides.streamToDisk = false;
+
+  return {
+    inputs: parsed.positionals,
+    out: flag('out'),
+    overrides,
+    chrome: flag('chrome'),
+    quiet: !!values.quiet,
+    help: !!values.help,
+  };
+};
+
+const isGlob = (pattern: string) => /[*?[\]{}]/.test(pattern);
+
+const expandInputs = async (patterns: string[]) => {
+  const files: string[] = [];
+  for (const pattern of patterns) {
+    if (!isGlob(pattern)) {
+      files.push(path.resolve(pattern));
+      continue;
+    }
+    for await (const match of fs.glob(pattern)) files.push(path.resolve(match));
+  }
+  return [...new Set(files)];
+};
+
+// External images (u + p) are read from disk next to the JSON: the page can't reach local files
+const loadAnimation = async (file: string): Promise<LottieFile> => {
+  const data = await readJson(file, 'READ_FAILED');
+  const images = new Map<string, Uint8Array>();
+  for (const asset of data?.assets ?? []) {
+    if (asset.layers || typeof asset.p !== 'string' || asset.e === 1 || /^[a-z]+:/i.test(`${asset.u ?? ''}${asset.p}`)) continue;
+    const relative = normalizePath(`${asset.u ?? ''}${asset.p}`);
+    try {
+      images.set(relative, await fs.readFile(path.join(path.dirname(file), relative)));
+    } catch {
+      // Reported as a missing asset by the page
+    }
+  }
+  return inlineImageAssets(data, images, '').data;
+};
+
+const evaluate = async (page: CdpSession, expression: string) => {
+  const { result, exceptionDetails } = await page.send('Runtime.evaluate', { expression, awaitPromise: true, returnByValue: true });
+  if (exceptionDetails) {
+    const description: string = exceptionDetails.exception?.description ?? exceptionDetails.text;
+    throw new Error(description.split('\n')[0].replace(/^\w*Error: /, ''));
+  }
+  return result.value;
+};
+
+const openConverterPage = async (browser: Browser, url: string) => {
+  const page = await browser.openPage();
+  await page.send('Page.enable');
+  await page.send('Runtime.enable');
+  await page.send('Runtime.addBinding', { name: 'lottie2mp4Progress' });
+
+  const loaded = new Promise<void>((resolve) => {
+    const off = page.on('Page.loadEventFired', () => {
+      off();
+      resolve();
+    });
+  });
+  await page.send('Page.navigate', { url });
+  await loaded;
+
+  // Vite may still be transforming modules after the load event
+  const deadline = Date.now() + PAGE_READY_TIMEOUT_MS;
+  while (!(await evaluate(page, 'typeof window.lottie2mp4 === "object"'))) {
+    if (Date.now() > deadline) throw new CliError('CHROME_FAILED', "The converter page did not load");
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  return page;
+};
+
+const getOutputPath = (input: string, fileName: string, out: string | undefined, single: boolean) => {
+  if (!out) return path.join(path.dirname(input), fileName);
+  if (single && path.extname(out) !== '') return path.resolve(out);
+  return path.resolve(out, fileName);
+};
+
+const writeOutput = async (page: CdpSession, bytes: number, destination: string) => {
+  await fs.mkdir(path.dirname(destination), { recursive: true });
+  const file = await fs.open(destination, 'w');
+  try {
+    for (let offset = 0; offset < bytes; offset += CHUNK_BYTES) {
+      const chunk: string = await evaluate(page, `window.lottie2mp4.readChunk(${offset}, ${CHUNK_BYTES})`);
+      await file.write(Buffer.from(chunk, 'base64'));
+    }
+  } finally {
+    await file.close();
+  }
+};
+
+const reportError = (err: unknown, input?: string) => {
+  const error = err instanceof CliError
+    ? { code: err.code, message: err.message, input: err.input ?? input }
+    : { code: 'CONVERSION_FAILED', message: err instanceof Error ? err.message : String(err), input };
+  process.stderr.write(`${JSON.stringify({ error })}\n`);
+};
+
+const convertFile = async (page: CdpSession, input: string, args: CliArgs, single: boolean) => {
+  const started = Date.now();
+  const data = await loadAnimation(input);
+  const name = path.basename(input).replace(/\.json$/i, '');
+
+  let result: HeadlessResult;
+  try {
+    result = await evaluate(page, `window.lottie2mp4.convert(${JSON.stringify(name)}, ${JSON.stringify(data)}, ${JSON.stringify(args.overrides)})`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new CliError(message.startsWith('Invalid Lottie file') ? 'INVALID_LOTTIE' : 'CONVERSION_FAILED', message, input);
+  }
+
+  const output = getOutputPath(input, result.fileName, args.out, single);
+  try {
+    await writeOutput(page, result.bytes, output);
+  } catch (err) {
+    throw new CliError('WRITE_FAILED', `Could not write ${output}: ${err instanceof Error ? err.message : err}`, input);
+  }
+
+  return { input, output, bytes: result.bytes, seconds: (Date.now() - started) / 1000, warnings: result.warnings };
+};
+
+export const run = async (argv: string[], server: ViteDevServer): Promise<number> => {
+  let browser: Browser | null = null;
+  try {
+    const args = await parseCliArgs(argv);
+    if (args.help) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+    if (typeof WebSocket === 'undefined' || typeof fs.glob !== 'function') {
+      throw new CliError('UNSUPPORTED_NODE', `Node.js 22.4 or newer is required (running ${process.version})`);
+    }
+
+    const inputs = await expandInputs(args.inputs);
+    if (inputs.length === 0) throw new CliError('NO_INPUT', args.inputs.length > 0 ? 'No files match the given patterns' : `No input files\n\n${USAGE}`);
+
+    const chrome = args.chrome ?? findChrome();
+    if (!chrome) throw new CliError('CHROME_NOT_FOUND', 'Chrome was not found; pass --chrome <path> or set CHROME_PATH');
+
+    await server.listen();
+    const baseUrl = server.resolvedUrls?.local[0];
+    if (!baseUrl) throw new CliError('CHROME_FAILED', 'The page server did not start');
+
+    try {
+      browser = await launchChrome(chrome);
+    } catch (err) {
+      throw new CliError('CHROME_FAILED', err instanceof Error ? err.message : String(err));
+    }
+    const page = await openConverterPage(browser, new URL('cli/headless.html', baseUrl).href);
+
+    let current = '';
+    let lastProgress = 0;
+    page.on('Runtime.bindingCalled', ({ name, payload }) => {
+      if (name !== 'lottie2mp4Progress' || args.quiet || Date.now() - lastProgress < PROGRESS_INTERVAL_MS) return;
+      lastProgress = Date.now();
+      const { message, percent } = JSON.parse(payload);
+      process.stderr.write(`${current} ${Math.round(percent)}% ${message}\n`);
+    });
+
+    let failed = 0;
+    for (let index = 0; index < inputs.length; index++) {
+      const input = inputs[index];
+      current = `[${index + 1}/${inputs.length}] ${path.basename(input)}`;
+      try {
+        const result = await convertFile(page, input, args, inputs.length === 1);
+        if (!args.quiet) {
+          for (const warning of result.warnings) process.stderr.write(`${current} warning: ${warning}\n`);
+        }
+        process.stdout.write(`${JSON.stringify(result)}\n`);
+      } catch (err) {
+        failed++;
+        reportError(err, input);
+      }
+    }
+    return failed > 0 ? 1 : 0;
+  } catch (err) {
+    reportError(err);
+    return 2;
+  } finally {
+    await browser?.close();
+  }
+};
@@ -0,0 +1,116 @@
+import React from 'react';
+import { BitrateMode, Codec, EncodingOptions } from '../types';
+import { QUANTIZER_MAX } from '../services/encoders';
+
+interface AdvancedEncodingProps {
+  encoding: EncodingOptions;
+  onChange: (encoding: EncodingOptions) => void;
+  codec: Codec;
+  autoBitrate: number; // Used when no explicit bitrate is set
+}
+
+const BITRATE_MODES: { value: BitrateMode; label: string }[] = [
+  { value: 'variable', label: 'VBR' },
+  { value: 'constant', label: 'CBR' },
+  { value: 'quantizer', label: 'Quantizer' },
+];
+
+const inputClass = 'w-full bg-gray-700 text-gray-200 rounded-md px-2 py-1 text-xs';
+
+const AdvancedEncoding: React.FC<AdvancedEncodingProps> = ({ encoding, onChange, codec, autoBitrate }) => {
+  const set = (patch: Partial<EncodingOptions>) => onChange({ ...encoding, ...patch });
+  const quantizerMax = QUANTIZER_MAX[codec];
+
+  return (
+    <div className="grid grid-cols-2 gap-4 text-xs text-gray-400">
+      <div className="col-span-2 space-y-1">
+        <span>Rate control</span>
+        <div className="grid grid-cols-3 gap-2">
+          {BITRATE_MODES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => set({ bitrateMode: value })}
+              className={`
+                px-3 py-1.5 rounded-lg font-medium transition-all
+                ${encoding.bitrateMode === value
+                  ? 'bg-gray-200 text-gray-900'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+              `}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {encoding.bitrateMode === 'quantizer' ? (
+        <label className="col-span-2 space-y-1 block">
+          <span>Quantizer (lower = better, 0–{quantizerMax})</span>
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min={0}
+              max={quantizerMax}
+              value={Math.min(encoding.quantizer, quantizerMax)}
+              onChange={(e) => set({ quantizer: Number(e.target.value) })}
+              className="flex-1 accent-brand-500"
+            />
+            <span className="font-mono w-6 text-right">{Math.min(encoding.quantizer, quantizerMax)}</span>
+          </div>
+        </label>
+      ) : (
+        <label className="col-span-2 space-y-1 block">
+          <span>Target bitrate (Mbps)</span>
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            placeholder={`Auto (${autoBitrate / 1_000_000})`}
+            value={encoding.bitrate === null ? '' : encoding.bitrate / 1_000_000}
+            onChange={(e) => set({ bitrate: e.target.value === '' ? null : Math.round(Number(e.target.value) * 1_000_000) })}
+            className={`${inputClass} font-mono`}
+          />
+        </label>
+      )}
+
+      <label className="space-y-1 block">
+        <span>Keyframe every (s)</span>
+        <input
+          type="number"
+          min={0.1}
+          step={0.5}
+          value={encoding.keyframeInterval}
+          onChange={(e) => set({ keyframeInterval: Math.max(0.1, Number(e.target.value) || 2) })}
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+
+      <label className="space-y-1 block">
+        <span>Latency mode</span>
+        <select
+          value={encoding.latencyMode}
+          onChange={(e) => set({ latencyMode: e.target.value as LatencyMode })}
+          className={inputClass}
+        >
+          <option value="quality">Quality</option>
+          <option value="realtime">Realtime</option>
+        </select>
+      </label>
+
+      <label className="col-span-2 space-y-1 block">
+        <span>Hardware acceleration</span>
+        <select
+          value={encoding.hardwareAcceleration}
+          onChange={(e) => set({ hardwareAcceleration: e.target.value as HardwareAcceleration })}
+          className={inputClass}
+        >
+          <option value="no-preference">No preference</option>
+          <option value="prefer-hardware">Prefer hardware</option>
+          <option value="prefer-software">Prefer software</option>
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default AdvancedEncoding;
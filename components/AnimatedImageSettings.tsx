@@ -0,0 +1,106 @@
+import React from 'react';
+import { AnimatedImageOptions, OutputFormat } from '../types';
+
+interface AnimatedImageSettingsProps {
+  animated: AnimatedImageOptions;
+  onChange: (animated: AnimatedImageOptions) => void;
+  format: OutputFormat;
+  renderFps: number; // Upper bound: frames can only be dropped, not invented
+}
+
+export const FPS_OPTIONS = [10, 12, 15, 20, 24, 25, 30, 50];
+
+const inputClass = 'w-full bg-gray-700 text-gray-200 rounded-md px-2 py-1 text-xs';
+
+const AnimatedImageSettings: React.FC<AnimatedImageSettingsProps> = ({ animated, onChange, format, renderFps }) => {
+  const set = (patch: Partial<AnimatedImageOptions>) => onChange({ ...animated, ...patch });
+  const isGif = format === OutputFormat.GIF;
+
+  return (
+    <div className="grid grid-cols-2 gap-4 text-xs text-gray-400">
+      <label className="space-y-1 block">
+        <span>Frame rate</span>
+        <select
+          value={animated.fps}
+          onChange={(e) => set({ fps: Number(e.target.value) })}
+          className={inputClass}
+        >
+          {FPS_OPTIONS.filter((fps) => fps <= renderFps).map((fps) => (
+            <option key={fps} value={fps}>{fps} FPS</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="space-y-1 block">
+        <span>Plays (0 = loop forever)</span>
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={animated.loopCount}
+          onChange={(e) => set({ loopCount: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+
+      {isGif ? (
+        <>
+          <label className="space-y-1 block">
+            <span>Colours per frame</span>
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                min={2}
+                max={256}
+                value={animated.maxColors}
+                onChange={(e) => set({ maxColors: Number(e.target.value) })}
+                className="flex-1 accent-emerald-500"
+              />
+              <span className="font-mono w-8 text-right">{animated.maxColors}</span>
+            </div>
+          </label>
+
+          <label className="flex items-center gap-2 self-end pb-1 text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={animated.dither}
+              onChange={(e) => set({ dither: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            Dithering (smoother gradients, larger file)
+          </label>
+        </>
+      ) : (
+        <label className="col-span-2 space-y-1 block">
+          <span>Quality</span>
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(animated.quality * 100)}
+              onChange={(e) => set({ quality: Number(e.target.value) / 100 })}
+              className="flex-1 accent-emerald-500"
+            />
+            <span className="font-mono w-8 text-right">{Math.round(animated.quality * 100)}</span>
+          </div>
+        </label>
+      )}
+
+      <label className="col-span-2 space-y-1 block">
+        <span>Size limit (MB) · downscales until the file fits</span>
+        <input
+          type="number"
+          min={0.1}
+          step={0.5}
+          placeholder="No limit"
+          value={animated.maxBytes === null ? '' : animated.maxBytes / 1024 / 1024}
+          onChange={(e) => set({ maxBytes: e.target.value === '' ? null : Math.round(Number(e.target.value) * 1024 * 1024) })}
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default AnimatedImageSettings;
@@ -0,0 +1,141 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { AudioCodec, AudioOptions, OutputFormat } from '../types';
+import { AUDIO_CODEC_LABELS } from '../services/audio';
+
+interface AudioSettingsProps {
+  audio: AudioOptions;
+  onChange: (audio: AudioOptions) => void;
+  format: OutputFormat;
+  markers: string[]; // Marker names of the loaded animation (empty in batch mode)
+}
+
+const BITRATE_OPTIONS = [64_000, 96_000, 128_000, 192_000, 256_000];
+
+const inputClass = 'w-full bg-gray-700 text-gray-200 rounded-md px-2 py-1 text-xs';
+
+const AudioSettings: React.FC<AudioSettingsProps> = ({ audio, onChange, format, markers }) => {
+  const set = (patch: Partial<AudioOptions>) => onChange({ ...audio, ...patch });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) set({ file });
+    e.target.value = '';
+  };
+
+  if (!audio.file) {
+    return (
+      <input
+        type="file"
+        accept="audio/*"
+        onChange={handleFileChange}
+        className="block w-full text-xs text-gray-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+      />
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-4 text-xs text-gray-400">
+      <div className="col-span-2 flex items-center justify-between bg-gray-900/50 rounded-md px-3 py-2">
+        <span className="text-gray-200 truncate">{audio.file.name}</span>
+        <button
+          onClick={() => set({ file: undefined })}
+          className="text-gray-500 hover:text-red-400 transition-colors"
+          title="Remove audio"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <label className="space-y-1 block">
+        <span>Codec</span>
+        {format === OutputFormat.MP4 ? (
+          <select
+            value={audio.codec}
+            onChange={(e) => set({ codec: e.target.value as AudioCodec })}
+            className={inputClass}
+          >
+            {Object.values(AudioCodec).map((codec) => (
+              <option key={codec} value={codec}>{AUDIO_CODEC_LABELS[codec]}</option>
+            ))}
+          </select>
+        ) : (
+          <div className={inputClass}>Opus (WebM)</div>
+        )}
+      </label>
+
+      <label className="space-y-1 block">
+        <span>Bitrate</span>
+        <select
+          value={audio.bitrate}
+          onChange={(e) => set({ bitrate: Number(e.target.value) })}
+          className={inputClass}
+        >
+          {BITRATE_OPTIONS.map((bitrate) => (
+            <option key={bitrate} value={bitrate}>{bitrate / 1000} kbps</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="space-y-1 block">
+        <span>Start at</span>
+        <select
+          value={audio.marker ?? ''}
+          onChange={(e) => set({ marker: e.target.value || null })}
+          className={inputClass}
+          disabled={markers.length === 0 && !audio.marker}
+        >
+          <option value="">First frame</option>
+          {markers.map((name) => <option key={name} value={name}>Marker: {name}</option>)}
+        </select>
+      </label>
+
+      <label className="space-y-1 block">
+        <span>Offset (s) · negative skips into the audio</span>
+        <input
+          type="number"
+          step={0.01}
+          value={audio.offset}
+          onChange={(e) => set({ offset: Number(e.target.value) || 0 })}
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+
+      <label className="space-y-1 block">
+        <span>Fade in (s)</span>
+        <input
+          type="number"
+          min={0}
+          step={0.1}
+          value={audio.fadeIn}
+          onChange={(e) => set({ fadeIn: Math.max(0, Number(e.target.value) || 0) })}
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+
+      <label className="space-y-1 block">
+        <span>Fade out (s)</span>
+        <input
+          type="number"
+          min={0}
+          step={0.1}
+          value={audio.fadeOut}
+          onChange={(e) => set({ fadeOut: Math.max(0, Number(e.target.value) || 0) })}
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+
+      <label className="col-span-2 flex items-center gap-2 text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={audio.loop}
+          onChange={(e) => set({ loop: e.target.checked })}
+          className="accent-emerald-500"
+        />
+        Loop to fill the video (otherwise silence after the audio ends, and longer audio is cut)
+      </label>
+    </div>
+  );
+};
+
+export default AudioSettings;
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { BackgroundOptions, BackgroundType } from '../types';
+import { getBackgroundCss, TRANSPARENT_CSS } from '../services/background';
+
+interface BackgroundLayerProps {
+  background: BackgroundOptions;
+  transparent?: boolean;
+  className?: string;
+}
+
+// Renders the export background behind the preview / inside the swatch
+const BackgroundLayer: React.FC<BackgroundLayerProps> = ({ background, transparent = false, className = '' }) => {
+  const [mediaUrl, setMediaUrl] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (!background.media) {
+      setMediaUrl(undefined);
+      return;
+    }
+    const url = URL.createObjectURL(background.media);
+    setMediaUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [background.media]);
+
+  if (transparent) {
+    return <div className={`absolute inset-0 ${className}`} style={{ background: TRANSPARENT_CSS }} />;
+  }
+
+  return (
+    <div
+      className={`absolute inset-0 overflow-hidden ${className}`}
+      style={{ background: getBackgroundCss(background, mediaUrl) }}
+    >
+      {background.type === BackgroundType.VIDEO && mediaUrl && (
+        <video
+          src={mediaUrl}
+          className="w-full h-full object-cover"
+          autoPlay
+          loop
+          muted
+          playsInline
+        />
+      )}
+    </div>
+  );
+};
+
+export default BackgroundLayer;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { BackgroundOptions, BackgroundType } from '../types';
+import BackgroundLayer from './BackgroundLayer';
+
+interface BackgroundPickerProps {
+  background: BackgroundOptions;
+  onChange: (background: BackgroundOptions) => void;
+  transparent: boolean;
+}
+
+const TYPE_LABELS: Record<BackgroundType, string> = {
+  [BackgroundType.SOLID]: 'Solid',
+  [BackgroundType.LINEAR_GRADIENT]: 'Linear',
+  [BackgroundType.RADIAL_GRADIENT]: 'Radial',
+  [BackgroundType.IMAGE]: 'Image',
+  [BackgroundType.VIDEO]: 'Video',
+};
+
+const BackgroundPicker: React.FC<BackgroundPickerProps> = ({ background, onChange, transparent }) => {
+  const isGradient = background.type === BackgroundType.LINEAR_GRADIENT || background.type === BackgroundType.RADIAL_GRADIENT;
+  const isMedia = background.type === BackgroundType.IMAGE || background.type === BackgroundType.VIDEO;
+
+  const handleMediaChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onChange({ ...background, media: file });
+  };
+
+  return (
+    <div className="flex gap-4">
+      {/* Live Swatch */}
+      <div className="relative w-24 h-16 flex-shrink-0 rounded-lg overflow-hidden ring-1 ring-gray-600">
+        <BackgroundLayer background={background} transparent={transparent} />
+      </div>
+
+      <div className="flex-1 space-y-3">
+        <div className="grid grid-cols-5 gap-2">
+          {Object.values(BackgroundType).map((type) => (
+            <button
+              key={type}
+              onClick={() => onChange({ ...background, type, media: undefined })}
+              className={`
+                px-2 py-1.5 rounded-lg text-xs font-medium transition-all
+                ${background.type === type
+                  ? 'bg-amber-600 text-white shadow-lg shadow-amber-500/30 ring-1 ring-amber-400'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+              `}
+            >
+              {TYPE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+
+        {!isMedia && (
+          <div className="flex items-center gap-3 text-xs text-gray-400">
+            <input
+              type="color"
+              value={background.color}
+              onChange={(e) => onChange({ ...background, color: e.target.value })}
+              className="w-8 h-8 rounded bg-transparent cursor-pointer"
+            />
+            {isGradient && (
+              <input
+                type="color"
+                value={background.gradientTo}
+                onChange={(e) => onChange({ ...background, gradientTo: e.target.value })}
+                className="w-8 h-8 rounded bg-transparent cursor-pointer"
+              />
+            )}
+            {background.type === BackgroundType.LINEAR_GRADIENT && (
+              <label className="flex items-center gap-2 flex-1">
+                <input
+                  type="range"
+                  min={0}
+                  max={360}
+                  value={background.gradientAngle}
+                  onChange={(e) => onChange({ ...background, gradientAngle: Number(e.target.value) })}
+                  className="flex-1 accent-amber-500"
+                />
+                <span className="font-mono w-10 text-right">{background.gradientAngle}°</span>
+              </label>
+            )}
+          </div>
+        )}
+
+        {isMedia && (
+          <input
+            type="file"
+            accept={background.type === BackgroundType.IMAGE ? 'image/*' : 'video/*'}
+            onChange={handleMediaChange}
+            className="block w-full text-xs text-gray-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+          />
+        )}
+
+        {transparent && (
+          <p className="text-xs text-gray-500">Ignored for transparent formats.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundPicker;
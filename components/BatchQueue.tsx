@@ -0,0 +1,120 @@
+import React from 'react';
+import { CheckCircle2, Clock, Download, Loader2, Pause, Trash2, XCircle, AlertTriangle } from 'lucide-react';
+import { BatchJob, ConvertOptions, FrameRate, OutputFormat, Resolution } from '../types';
+import { getJobOutputName, resolveJobOptions } from '../services/batch';
+
+interface BatchQueueProps {
+  jobs: BatchJob[];
+  baseOptions: ConvertOptions;
+  onOverridesChange: (id: string, overrides: Partial<ConvertOptions>) => void;
+  onRemove: (id: string) => void;
+  disabled: boolean;
+}
+
+const StateIcon: React.FC<{ job: BatchJob }> = ({ job }) => {
+  switch (job.status.state) {
+    case 'completed':
+      return <CheckCircle2 className="w-4 h-4 text-green-400" />;
+    case 'rendering':
+    case 'encoding':
+      return <Loader2 className="w-4 h-4 text-brand-500 animate-spin" />;
+    case 'paused':
+      return <Pause className="w-4 h-4 text-amber-400" />;
+    case 'cancelled':
+      return <XCircle className="w-4 h-4 text-gray-500" />;
+    case 'error':
+      return <AlertTriangle className="w-4 h-4 text-red-400" />;
+    default:
+      return <Clock className="w-4 h-4 text-gray-500" />;
+  }
+};
+
+const selectClass = 'bg-gray-700 text-gray-200 rounded-md px-1.5 py-1 text-xs';
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ jobs, baseOptions, onOverridesChange, onRemove, disabled }) => {
+  // An empty value means "use the shared setting"
+  const setOverride = <K extends keyof ConvertOptions>(job: BatchJob, key: K, value: ConvertOptions[K] | '') => {
+    const { [key]: _removed, ...rest } = job.overrides;
+    onOverridesChange(job.id, value === '' ? rest : { ...rest, [key]: value });
+  };
+
+  return (
+    <ul className="divide-y divide-gray-700">
+      {jobs.map((job) => {
+        const options = resolveJobOptions(job, baseOptions);
+        const isRunning = job.status.state === 'rendering' || job.status.state === 'paused';
+
+        return (
+          <li key={job.id} className="py-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <StateIcon job={job} />
+              <span className="flex-1 truncate text-sm text-gray-200" title={job.fileName}>
+                {job.template ? getJobOutputName(job, options) : `${job.fileName}.json`}
+              </span>
+              {job.status.state === 'completed' && job.status.outputUrl && (
+                <a
+                  href={job.status.outputUrl}
+                  download={getJobOutputName(job, options)}
+                  className="text-green-400 hover:text-green-300 p-1"
+                >
+                  <Download className="w-4 h-4" />
+                </a>
+              )}
+              <button
+                onClick={() => onRemove(job.id)}
+                disabled={disabled}
+                className="text-gray-500 hover:text-red-400 p-1 disabled:opacity-30"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className={`flex items-center gap-2 ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+              <select
+                value={job.overrides.resolution ?? ''}
+                onChange={(e) => setOverride(job, 'resolution', e.target.value as Resolution | '')}
+                className={selectClass}
+              >
+                <option value="">Default ({baseOptions.resolution})</option>
+                {Object.values(Resolution).map((res) => <option key={res} value={res}>{res}</option>)}
+              </select>
+              <select
+                value={job.overrides.fps ?? ''}
+                onChange={(e) => setOverride(job, 'fps', e.target.value === '' ? '' : Number(e.target.value) as FrameRate)}
+                className={selectClass}
+              >
+                <option value="">Default ({baseOptions.fps} FPS)</option>
+                {[FrameRate.FPS_30, FrameRate.FPS_60, FrameRate.FPS_120].map((fps) => <option key={fps} value={fps}>{fps} FPS</option>)}
+              </select>
+              <select
+                value={job.overrides.format ?? ''}
+                onChange={(e) => setOverride(job, 'format', e.target.value as OutputFormat | '')}
+                className={selectClass}
+              >
+                <option value="">Default ({baseOptions.format})</option>
+                {Object.values(OutputFormat).map((format) => <option key={format} value={format}>{format}</option>)}
+              </select>
+            </div>
+
+            {isRunning && (
+              <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-300 ease-out ${job.status.state === 'paused' ? 'bg-amber-400' : 'bg-brand-500'}`}
+                  style={{ width: `${job.status.progress}%` }}
+                />
+              </div>
+            )}
+            {(job.status.message && isRunning) && (
+              <p className="text-xs font-mono text-gray-400 truncate">{job.status.message}</p>
+            )}
+            {job.status.error && (
+              <p className="text-xs text-red-300 truncate" title={job.status.error}>{job.status.error}</p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default BatchQueue;
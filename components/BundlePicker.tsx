@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Package, PlayCircle, ListVideo, X } from 'lucide-react';
+import { LoadedFile } from '../types';
+import { DotLottieBundle, getBundleFiles } from '../services/dotlottie';
+
+interface BundlePickerProps {
+  bundle: DotLottieBundle;
+  name: string; // File name of the .lottie archive
+  onPick: (file: LoadedFile) => void;
+  // Converts every animation of the bundle (batch mode)
+  onPickAll?: (files: LoadedFile[]) => void;
+  onCancel: () => void;
+}
+
+const BundlePicker: React.FC<BundlePickerProps> = ({ bundle, name, onPick, onPickAll, onCancel }) => {
+  const [themeId, setThemeId] = useState('');
+  const theme = bundle.themes.find((t) => t.id === themeId);
+  const files = getBundleFiles(bundle, name, theme);
+
+  return (
+    <div className="border-2 border-gray-600 rounded-xl p-6 bg-dark-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-white flex items-center">
+          <Package className="w-5 h-5 mr-2 text-brand-500" />
+          {name}
+        </h3>
+        <button onClick={onCancel} className="text-gray-400 hover:text-white p-1 hover:bg-gray-700 rounded-md transition">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {bundle.themes.length > 0 && (
+        <label className="flex items-center justify-between text-xs text-gray-400">
+          <span>Theme</span>
+          <select
+            value={themeId}
+            onChange={(e) => setThemeId(e.target.value)}
+            className="bg-gray-700 text-gray-200 rounded-md px-2 py-1 text-xs"
+          >
+            <option value="">Default</option>
+            {bundle.themes.map((t) => <option key={t.id} value={t.id}>{t.id}</option>)}
+          </select>
+        </label>
+      )}
+
+      <ul className="divide-y divide-gray-700">
+        {bundle.animations.map((animation, index) => (
+          <li key={animation.id} className="py-2 flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-gray-200 truncate">{animation.id}</p>
+              <p className="text-xs text-gray-500 font-mono">
+                {animation.data.w}×{animation.data.h} · {((animation.data.op - animation.data.ip) / animation.data.fr).toFixed(2)}s
+                {animation.missingImages.length > 0 && (
+                  <span className="text-amber-400"> · {animation.missingImages.length} missing image(s)</span>
+                )}
+              </p>
+            </div>
+            <button
+              onClick={() => onPick(files[index])}
+              className="flex items-center px-3 py-1.5 bg-brand-600 hover:bg-brand-500 text-white rounded-lg text-xs font-medium transition"
+            >
+              <PlayCircle className="w-4 h-4 mr-1" /> Open
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {onPickAll && bundle.animations.length > 1 && (
+        <button
+          onClick={() => onPickAll(files)}
+          className="w-full py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-sm font-medium transition flex items-center justify-center"
+        >
+          <ListVideo className="w-4 h-4 mr-2" />
+          Batch convert all {bundle.animations.length}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BundlePicker;
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Columns2, X } from 'lucide-react';
+import { getRenderBlob, RenderRecord } from '../services/history';
+import { formatBytes } from '../services/disk';
+
+export interface PreviewClock {
+  seconds: number;
+  playing: boolean;
+}
+
+interface CompareViewProps {
+  records: RenderRecord[];
+  clock: React.MutableRefObject<PreviewClock>; // Written by the preview's scrubber
+  onClose: () => void;
+}
+
+// Videos play on their own and are only re-seeked when they drift this far from the preview
+const MAX_DRIFT_SECONDS = 0.1;
+
+const CompareView: React.FC<CompareViewProps> = ({ records, clock, onClose }) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const videos = useRef<(HTMLVideoElement | null)[]>([]);
+
+  // Keyed on the ids: a history refresh hands over new record objects for the same renders
+  const recordIds = records.map((record) => record.id).join();
+
+  useEffect(() => {
+    let cancelled = false;
+    const created: string[] = [];
+    Promise.all(records.map(async (record) => [record.id, URL.createObjectURL(await getRenderBlob(record))] as const))
+      .then((entries) => {
+        const loaded = entries.map(([, url]) => url);
+        // Selection changed or the view closed while loading
+        if (cancelled) {
+          loaded.forEach((url) => URL.revokeObjectURL(url));
+          return;
+        }
+        created.push(...loaded);
+        setUrls(Object.fromEntries(entries));
+      })
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : 'Could not load the renders.'));
+    return () => {
+      cancelled = true;
+      created.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [recordIds]);
+
+  // Follows the preview clock: plays / pauses with it and corrects drift. Renders of
+  // a different length loop on their own duration.
+  useEffect(() => {
+    let frameId = 0;
+    const sync = () => {
+      const { seconds, playing } = clock.current;
+      for (const video of videos.current) {
+        if (!video || !video.duration) continue;
+        const target = seconds % video.duration;
+        if (playing && video.paused) video.play().catch(() => {});
+        if (!playing && !video.paused) video.pause();
+        const drift = Math.abs(video.currentTime - target);
+        if (drift > (playing ? MAX_DRIFT_SECONDS : 0.001)) video.currentTime = target;
+      }
+      frameId = requestAnimationFrame(sync);
+    };
+    frameId = requestAnimationFrame(sync);
+    return () => cancelAnimationFrame(frameId);
+  }, [clock]);
+
+  return (
+    <div className="bg-dark-800 rounded-2xl border border-gray-700 overflow-hidden shadow-2xl">
+      <div className="p-4 bg-gray-900 border-b border-gray-700 flex justify-between items-center">
+        <h3 className="font-semibold text-gray-200 flex items-center">
+          <Columns2 className="w-5 h-5 mr-2 text-brand-500" />
+          Compare
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white p-1 hover:bg-gray-700 rounded-md transition">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      {error ? (
+        <p className="p-4 text-sm text-red-300">{error}</p>
+      ) : (
+        <div className={`grid gap-2 p-2 ${records.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {records.map((record, i) => (
+            <figure key={record.id} className="space-y-1">
+              <div className="bg-gray-900/50 flex items-center justify-center" style={{ aspectRatio: `${record.width} / ${record.height}` }}>
+                {urls[record.id] && (record.mimeType.startsWith('video/') ? (
+                  <video
+                    ref={(element) => { videos.current[i] = element; }}
+                    src={urls[record.id]}
+                    muted
+                    loop
+                    playsInline
+                    className="w-full h-full object-contain"
+                  />
+                ) : (
+                  // GIF / WebP play on their own clock
+                  <img src={urls[record.id]} alt={record.outputName} className="w-full h-full object-contain" />
+                ))}
+              </div>
+              <figcaption className="text-[11px] font-mono text-gray-400 px-1 truncate" title={record.outputName}>
+                {record.encoder} · {record.width}×{record.height} · {formatBytes(record.bytes)}
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
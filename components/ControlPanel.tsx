@@ -1,16 +1,135 @@
-import React from 'react';
-import { ConvertOptions, FrameRate, Resolution } from '../types';
-import { Settings, Film, Monitor } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Codec, ConvertOptions, FitMode, FrameRate, OutputFormat, Resolution, SizingMode, SizingOptions, TimingOptions, RendererKind } from '../types';
+import { Settings, Film, Monitor, Layers, Palette, Crop, HardDrive, SlidersHorizontal, Image, Scissors, Cpu, Camera, Music } from 'lucide-react';
+import BackgroundPicker from './BackgroundPicker';
+import AdvancedEncoding from './AdvancedEncoding';
+import AnimatedImageSettings from './AnimatedImageSettings';
+import RangePicker from './RangePicker';
+import ImageExportSettings from './ImageExportSettings';
+import AudioSettings from './AudioSettings';
+import PresetPicker from './PresetPicker';
+import { estimateOutputBytes, getAutoBitrate, getOutputFps, isAnimatedImageFormat, isImageExportFormat, isTransparentFormat, requiresWebCodecs, supportsAudio } from '../services/encoders';
+import { getAtlasLayout } from '../services/spritesheet';
+import { formatBytes, isDiskStreamingSupported, STREAMING_THRESHOLD_BYTES } from '../services/disk';
+import { getDimensions } from '../services/sizing';
+import { isWorkerRendererSupported, RENDERER_LABELS } from '../services/renderers';
+import { CODEC_LABELS, CODECS_BY_FORMAT, probeCodecSupport, resolveCodec } from '../services/codecs';
+
+type ExportMode = 'animation' | 'image';
+
+const FORMAT_OPTIONS: Record<ExportMode, { value: OutputFormat; label: string; hint: string }[]> = {
+  animation: [
+    { value: OutputFormat.MP4, label: 'MP4', hint: 'Opaque · widest support' },
+    { value: OutputFormat.WEBM, label: 'WebM', hint: 'Opaque · VP9 / AV1' },
+    { value: OutputFormat.WEBM_ALPHA, label: 'WebM Alpha', hint: 'VP9 · transparent' },
+    { value: OutputFormat.PNG_SEQUENCE, label: 'PNG Sequence', hint: 'ZIP · transparent' },
+    { value: OutputFormat.GIF, label: 'GIF', hint: 'Palette · plays anywhere' },
+    { value: OutputFormat.WEBP, label: 'WebP', hint: 'Animated · smaller than GIF' },
+  ],
+  image: [
+    { value: OutputFormat.STILL_PNG, label: 'PNG', hint: 'One frame · transparent' },
+    { value: OutputFormat.STILL_JPEG, label: 'JPEG', hint: 'One frame · smallest' },
+    { value: OutputFormat.STILL_WEBP, label: 'WebP', hint: 'One frame · transparent' },
+    { value: OutputFormat.PNG_SEQUENCE, label: 'PNG Sequence', hint: 'Every frame · ZIP' },
+    { value: OutputFormat.SPRITE_SHEET, label: 'Sprite Sheet', hint: 'Grid + JSON · game engines' },
+  ],
+};
+
+const RENDERER_HINTS: Record<RendererKind, string> = {
+  [RendererKind.AUTO]: 'Picked per file',
+  [RendererKind.SVG]: 'All features · slowest',
+  [RendererKind.CANVAS]: 'Fast · no effects',
+  [RendererKind.WORKER]: 'Fast · UI stays responsive',
+};
+
+const SIZING_OPTIONS: { value: SizingMode; label: string }[] = [
+  { value: SizingMode.MATCH_SOURCE, label: 'Source' },
+  { value: SizingMode.LANDSCAPE, label: '16:9' },
+  { value: SizingMode.SQUARE, label: '1:1' },
+  { value: SizingMode.PORTRAIT, label: '4:5' },
+  { value: SizingMode.VERTICAL, label: '9:16' },
+  { value: SizingMode.CUSTOM, label: 'Custom' },
+];
+
+const FIT_OPTIONS: { value: FitMode; label: string }[] = [
+  { value: FitMode.FIT, label: 'Fit' },
+  { value: FitMode.FILL, label: 'Fill' },
+  { value: FitMode.STRETCH, label: 'Stretch' },
+];
 
 interface ControlPanelProps {
   options: ConvertOptions;
   setOptions: React.Dispatch<React.SetStateAction<ConvertOptions>>;
   disabled: boolean;
+  // Omitted in batch mode, where every file has its own source size
+  sourceWidth?: number;
+  sourceHeight?: number;
+  durationSeconds?: number;
+  markers?: string[];
 }
 
-const ControlPanel: React.FC<ControlPanelProps> = ({ options, setOptions, disabled }) => {
+const ControlPanel: React.FC<ControlPanelProps> = ({ options, setOptions, disabled, sourceWidth, sourceHeight, durationSeconds, markers = [] }) => {
+  const perFileSize = options.sizing.mode === SizingMode.MATCH_SOURCE && !(sourceWidth && sourceHeight);
+  const { w, h } = getDimensions(options.resolution, options.sizing, sourceWidth ?? 0, sourceHeight ?? 0);
+
+  const estimatedBytes = !perFileSize && durationSeconds
+    ? estimateOutputBytes(options.format, options.encoding, options.animated, w, h, options.fps, durationSeconds)
+      + (options.audio.file && supportsAudio(options.format) ? (options.audio.bitrate / 8) * durationSeconds : 0)
+    : null;
+  // Disk streaming needs a save dialog per output, so it is only offered for single conversions
+  const canStream = estimatedBytes !== null && isDiskStreamingSupported();
+  const isLargeOutput = estimatedBytes !== null && estimatedBytes > STREAMING_THRESHOLD_BYTES;
+
+  // Which codecs this browser can actually encode at the current size/fps
+  const [codecSupport, setCodecSupport] = useState<Record<Codec, boolean> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    probeCodecSupport(w, h, options.fps).then((support) => {
+      if (!cancelled) setCodecSupport(support);
+    });
+    return () => { cancelled = true; };
+  }, [w, h, options.fps]);
+
+  // PNG sequences appear in both lists, so the mode is remembered rather than derived
+  const [exportMode, setExportMode] = useState<ExportMode>(isImageExportFormat(options.format) ? 'image' : 'animation');
+  const formatOptions = FORMAT_OPTIONS[exportMode];
+
+  // Presets and remembered settings can switch to a format of the other mode
+  useEffect(() => {
+    if (!FORMAT_OPTIONS[exportMode].some(({ value }) => value === options.format)) {
+      setExportMode(isImageExportFormat(options.format) ? 'image' : 'animation');
+    }
+  }, [options.format]);
+
+  const setFormat = (format: OutputFormat) =>
+    setOptions({ ...options, format, codec: resolveCodec(format, options.codec) });
+
+  const switchMode = (mode: ExportMode) => {
+    setExportMode(mode);
+    if (!FORMAT_OPTIONS[mode].some(({ value }) => value === options.format)) setFormat(FORMAT_OPTIONS[mode][0].value);
+  };
+
+  const spriteLayout = options.format === OutputFormat.SPRITE_SHEET && durationSeconds && !perFileSize
+    ? getAtlasLayout(Math.ceil(durationSeconds * getOutputFps(options.format, options.fps, options.animated)), w, h, options.image.columns)
+    : null;
+
+  const containerCodecs = CODECS_BY_FORMAT[options.format];
+  const activeCodec = resolveCodec(options.format, options.codec);
+
+  const setSizing = (patch: Partial<SizingOptions>) =>
+    setOptions({ ...options, sizing: { ...options.sizing, ...patch } });
+
+  const setTiming = (patch: Partial<TimingOptions>) =>
+    setOptions({ ...options, timing: { ...options.timing, ...patch } });
+
   return (
     <div className={`grid grid-cols-1 md:grid-cols-2 gap-6 p-6 bg-dark-800 rounded-xl border border-gray-700 ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+
+      {/* Presets */}
+      <div className="md:col-span-2">
+        <PresetPicker options={options} setOptions={setOptions} />
+      </div>
       
       {/* Resolution Selection */}
       <div className="space-y-3">
@@ -58,6 +177,358 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ options, setOptions, disabl
             </button>
           ))}
         </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+          <label className="flex items-center gap-2">
+            Sub-frames
+            <select
+              value={options.timing.mode}
+              onChange={(e) => setTiming({ mode: e.target.value as TimingOptions['mode'] })}
+              className="bg-gray-700 text-gray-200 rounded-md px-2 py-1"
+            >
+              <option value="exact">Exact</option>
+              <option value="frame-blend">Frame blend</option>
+              <option value="motion-blur">Motion blur</option>
+            </select>
+          </label>
+          {options.timing.mode === 'motion-blur' && (
+            <>
+              <label className="flex items-center gap-2">
+                Samples
+                <input
+                  type="number"
+                  min={2}
+                  max={32}
+                  value={options.timing.samples}
+                  onChange={(e) => setTiming({ samples: Math.min(32, Math.max(2, Math.round(Number(e.target.value) || 2))) })}
+                  className="w-14 bg-gray-700 text-gray-200 rounded-md px-2 py-1 font-mono"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                Shutter
+                <select
+                  value={options.timing.shutter}
+                  onChange={(e) => setTiming({ shutter: Number(e.target.value) })}
+                  className="bg-gray-700 text-gray-200 rounded-md px-2 py-1"
+                >
+                  <option value={0.25}>90°</option>
+                  <option value={0.5}>180°</option>
+                  <option value={1}>360°</option>
+                </select>
+              </label>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Output Size & Aspect */}
+      <div className="space-y-3 md:col-span-2">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center text-brand-500">
+            <Crop className="w-5 h-5 mr-2" />
+            <span className="font-medium text-white">Output Size</span>
+          </div>
+          <span className="text-xs font-mono text-gray-400">{perFileSize ? 'per file' : `${w} × ${h}`}</span>
+        </div>
+        <div className="grid grid-cols-6 gap-2">
+          {SIZING_OPTIONS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setSizing({ mode: value })}
+              className={`
+                px-2 py-2 rounded-lg text-sm font-medium transition-all
+                ${options.sizing.mode === value 
+                  ? 'bg-brand-600 text-white shadow-lg shadow-brand-500/30 ring-1 ring-brand-400' 
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+              `}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-xs text-gray-400">
+          {options.sizing.mode === SizingMode.MATCH_SOURCE && (
+            <label className="flex items-center gap-2">
+              Tier applies to
+              <select
+                value={options.sizing.matchEdge}
+                onChange={(e) => setSizing({ matchEdge: e.target.value as SizingOptions['matchEdge'] })}
+                className="bg-gray-700 text-gray-200 rounded-md px-2 py-1"
+              >
+                <option value="short">short edge</option>
+                <option value="long">long edge</option>
+              </select>
+            </label>
+          )}
+
+          {options.sizing.mode === SizingMode.CUSTOM && (
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={16}
+                step={2}
+                value={options.sizing.customWidth}
+                onChange={(e) => setSizing({ customWidth: Number(e.target.value) })}
+                className="w-20 bg-gray-700 text-gray-200 rounded-md px-2 py-1 font-mono"
+              />
+              <span>×</span>
+              <input
+                type="number"
+                min={16}
+                step={2}
+                value={options.sizing.customHeight}
+                onChange={(e) => setSizing({ customHeight: Number(e.target.value) })}
+                className="w-20 bg-gray-700 text-gray-200 rounded-md px-2 py-1 font-mono"
+              />
+            </div>
+          )}
+
+          <div className="flex items-center gap-1 ml-auto">
+            {FIT_OPTIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setSizing({ fit: value })}
+                className={`
+                  px-3 py-1 rounded-md font-medium transition-all
+                  ${options.sizing.fit === value 
+                    ? 'bg-gray-200 text-gray-900' 
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                `}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Range, Repeat & Ping-pong */}
+      <div className="space-y-3 md:col-span-2">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center text-brand-500">
+            <Scissors className="w-5 h-5 mr-2" />
+            <span className="font-medium text-white">Range</span>
+          </div>
+          {durationSeconds !== undefined && (
+            <span className="text-xs font-mono text-gray-400">{durationSeconds.toFixed(2)}s</span>
+          )}
+        </div>
+        <RangePicker
+          range={options.range}
+          onChange={(range) => setOptions({ ...options, range })}
+          markers={markers}
+        />
+      </div>
+
+      {/* Output Format Selection */}
+      <div className="space-y-3 md:col-span-2">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center text-brand-500">
+            <Layers className="w-5 h-5 mr-2" />
+            <span className="font-medium text-white">Output Format</span>
+          </div>
+          <div className="flex items-center gap-1 text-xs">
+            {(['animation', 'image'] as ExportMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => switchMode(mode)}
+                className={`
+                  px-3 py-1 rounded-md font-medium transition-all
+                  ${exportMode === mode
+                    ? 'bg-gray-200 text-gray-900'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                `}
+              >
+                {mode === 'animation' ? 'Animation' : 'Still / Sprites'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {formatOptions.map(({ value, label, hint }) => (
+            <button
+              key={value}
+              onClick={() => setFormat(value)}
+              className={`
+                px-3 py-2 rounded-lg text-sm font-medium transition-all flex flex-col items-center
+                ${options.format === value 
+                  ? 'bg-emerald-600 text-white shadow-lg shadow-emerald-500/30 ring-1 ring-emerald-400' 
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+              `}
+            >
+              <span>{label}</span>
+              <span className="text-[10px] font-normal opacity-70">{hint}</span>
+            </button>
+          ))}
+        </div>
+
+        {containerCodecs.length > 0 && (
+          <div className="grid grid-cols-4 gap-2">
+            {Object.values(Codec).map((codec) => {
+              const inContainer = containerCodecs.includes(codec);
+              const supported = codecSupport ? codecSupport[codec] : true;
+              return (
+                <button
+                  key={codec}
+                  onClick={() => setOptions({ ...options, codec })}
+                  disabled={!inContainer || !supported}
+                  title={!inContainer ? `Not available in ${options.format.toUpperCase()}` : !supported ? 'Not supported by this browser at this size/frame rate' : undefined}
+                  className={`
+                    px-3 py-1.5 rounded-lg text-xs font-medium transition-all disabled:opacity-30 disabled:cursor-not-allowed
+                    ${activeCodec === codec && inContainer
+                      ? 'bg-gray-200 text-gray-900'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                  `}
+                >
+                  {CODEC_LABELS[codec]}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {estimatedBytes !== null && (
+          <div className="flex items-center justify-between text-xs">
+            <span className={isLargeOutput && !options.streamToDisk ? 'text-amber-400' : 'text-gray-400'}>
+              Estimated size ~{formatBytes(estimatedBytes)}
+              {isLargeOutput && !options.streamToDisk && (canStream ? ' · streaming to disk recommended' : ' · may exceed browser memory')}
+            </span>
+            {canStream && (
+              <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                <HardDrive className="w-4 h-4" />
+                Stream to disk
+                <input
+                  type="checkbox"
+                  checked={options.streamToDisk}
+                  onChange={(e) => setOptions({ ...options, streamToDisk: e.target.checked })}
+                  className="accent-emerald-500"
+                />
+              </label>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Advanced Encoding */}
+      {requiresWebCodecs(options.format) && (
+        <details className="md:col-span-2 group">
+          <summary className="flex items-center text-brand-500 cursor-pointer select-none list-none">
+            <SlidersHorizontal className="w-5 h-5 mr-2" />
+            <span className="font-medium text-white">Advanced Encoding</span>
+            <span className="ml-auto text-xs text-gray-500 group-open:hidden">
+              {options.encoding.bitrateMode === 'quantizer'
+                ? `QP ${options.encoding.quantizer}`
+                : `${((options.encoding.bitrate ?? getAutoBitrate(w, h)) / 1_000_000).toFixed(1)} Mbps ${options.encoding.bitrateMode === 'constant' ? 'CBR' : 'VBR'}`}
+            </span>
+          </summary>
+          <div className="pt-4">
+            <AdvancedEncoding
+              encoding={options.encoding}
+              onChange={(encoding) => setOptions({ ...options, encoding })}
+              codec={activeCodec}
+              autoBitrate={getAutoBitrate(w, h)}
+            />
+          </div>
+        </details>
+      )}
+
+      {/* GIF / WebP */}
+      {isAnimatedImageFormat(options.format) && (
+        <div className="space-y-3 md:col-span-2">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center text-brand-500">
+              <Image className="w-5 h-5 mr-2" />
+              <span className="font-medium text-white">{options.format === OutputFormat.GIF ? 'GIF' : 'WebP'} Options</span>
+            </div>
+            <span className="text-xs font-mono text-gray-400">
+              {getOutputFps(options.format, options.fps, options.animated)} fps
+            </span>
+          </div>
+          <AnimatedImageSettings
+            animated={options.animated}
+            onChange={(animated) => setOptions({ ...options, animated })}
+            format={options.format}
+            renderFps={options.fps}
+          />
+        </div>
+      )}
+
+      {/* Audio */}
+      {supportsAudio(options.format) && (
+        <div className="space-y-3 md:col-span-2">
+          <div className="flex items-center text-brand-500 mb-2">
+            <Music className="w-5 h-5 mr-2" />
+            <span className="font-medium text-white">Audio Track</span>
+          </div>
+          <AudioSettings
+            audio={options.audio}
+            onChange={(audio) => setOptions({ ...options, audio })}
+            format={options.format}
+            markers={markers}
+          />
+        </div>
+      )}
+
+      {/* Still frame / Sprite sheet */}
+      {isImageExportFormat(options.format) && (
+        <div className="space-y-3 md:col-span-2">
+          <div className="flex items-center text-brand-500 mb-2">
+            <Camera className="w-5 h-5 mr-2" />
+            <span className="font-medium text-white">{options.format === OutputFormat.SPRITE_SHEET ? 'Sprite Sheet' : 'Still Frame'}</span>
+          </div>
+          <ImageExportSettings
+            image={options.image}
+            onChange={(image) => setOptions({ ...options, image })}
+            animated={options.animated}
+            onAnimatedChange={(animated) => setOptions({ ...options, animated })}
+            format={options.format}
+            renderFps={options.fps}
+            grid={spriteLayout ? `${spriteLayout.columns} × ${spriteLayout.rows} · ${spriteLayout.width}×${spriteLayout.height}px` : undefined}
+          />
+        </div>
+      )}
+
+      {/* Render Backend */}
+      <div className="space-y-3 md:col-span-2">
+        <div className="flex items-center text-brand-500 mb-2">
+          <Cpu className="w-5 h-5 mr-2" />
+          <span className="font-medium text-white">Renderer</span>
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+          {Object.values(RendererKind).map((kind) => {
+            const unavailable = kind === RendererKind.WORKER && !isWorkerRendererSupported();
+            return (
+              <button
+                key={kind}
+                onClick={() => setOptions({ ...options, renderer: kind })}
+                disabled={unavailable}
+                title={unavailable ? 'OffscreenCanvas is not supported by this browser' : undefined}
+                className={`
+                  px-3 py-2 rounded-lg text-sm font-medium transition-all flex flex-col items-center disabled:opacity-30 disabled:cursor-not-allowed
+                  ${options.renderer === kind 
+                    ? 'bg-gray-200 text-gray-900' 
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                `}
+              >
+                <span>{RENDERER_LABELS[kind]}</span>
+                <span className="text-[10px] font-normal opacity-70">{RENDERER_HINTS[kind]}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Background */}
+      <div className="space-y-3 md:col-span-2">
+        <div className="flex items-center text-brand-500 mb-2">
+          <Palette className="w-5 h-5 mr-2" />
+          <span className="font-medium text-white">Background</span>
+        </div>
+        <BackgroundPicker
+          background={options.background}
+          onChange={(background) => setOptions({ ...options, background })}
+          transparent={isTransparentFormat(options.format)}
+        />
       </div>
     </div>
   );
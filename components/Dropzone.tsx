@@ -1,14 +1,71 @@
 import React, { useCallback, useState } from 'react';
 import { Upload, FileJson, AlertCircle } from 'lucide-react';
+import { LoadedFile } from '../types';
+import { inlineImageAssets, getDirectory, isImagePath, normalizePath } from '../services/assets';
+import { DotLottieBundle, getBundleFiles, isDotLottieFile, readDotLottie } from '../services/dotlottie';
+import BundlePicker from './BundlePicker';
 
 interface DropzoneProps {
   onFileLoaded: (data: any, fileName: string) => void;
+  // Called instead of onFileLoaded when several files (or a folder) are dropped
+  onFilesLoaded?: (files: LoadedFile[]) => void;
   disabled: boolean;
 }
 
-const Dropzone: React.FC<DropzoneProps> = ({ onFileLoaded, disabled }) => {
+// A dropped file with its path inside the drop (so JSON files can find their images/ folder)
+interface DroppedFile {
+  file: File;
+  path: string;
+}
+
+const isJsonFile = (file: File) => file.type === 'application/json' || file.name.endsWith('.json');
+
+const readEntryFiles = (entry: FileSystemEntry): Promise<DroppedFile[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(
+      (file) => resolve([{ file, path: normalizePath(entry.fullPath) }]),
+      reject
+    ));
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    return new Promise((resolve, reject) => {
+      const entries: FileSystemEntry[] = [];
+      // readEntries returns results in batches; keep reading until it returns nothing
+      const readBatch = () => reader.readEntries((batch) => {
+        if (batch.length === 0) {
+          Promise.all(entries.map(readEntryFiles)).then((nested) => resolve(nested.flat()), reject);
+          return;
+        }
+        entries.push(...batch);
+        readBatch();
+      }, reject);
+      readBatch();
+    });
+  }
+  return Promise.resolve([]);
+};
+
+const fromFileList = (files: FileList): DroppedFile[] =>
+  Array.from(files).map((file) => ({ file, path: normalizePath(file.webkitRelativePath || file.name) }));
+
+// Collects dropped files, descending into dropped folders
+const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<DroppedFile[]> => {
+  const entries = Array.from(dataTransfer.items ?? [])
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) return fromFileList(dataTransfer.files);
+
+  const nested = await Promise.all(entries.map(readEntryFiles));
+  return nested.flat();
+};
+
+const Dropzone: React.FC<DropzoneProps> = ({ onFileLoaded, onFilesLoaded, disabled }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // A .lottie bundle waiting for the user to pick an animation/theme
+  const [bundle, setBundle] = useState<{ bundle: DotLottieBundle; name: string } | null>(null);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -20,42 +77,104 @@ const Dropzone: React.FC<DropzoneProps> = ({ onFileLoaded, disabled }) => {
     }
   }, []);
 
-  const processFile = (file: File) => {
-    if (file.type !== 'application/json' && !file.name.endsWith('.json')) {
-      setError('Please upload a valid .json Lottie file');
+  const deliver = (loaded: LoadedFile[]) => {
+    if (loaded.length > 1 && onFilesLoaded) {
+      onFilesLoaded(loaded);
+    } else {
+      onFileLoaded(loaded[0].data, loaded[0].name);
+    }
+  };
+
+  const processFiles = async (files: DroppedFile[]) => {
+    const jsonFiles = files.filter(({ file }) => isJsonFile(file));
+    const bundleFiles = files.filter(({ file }) => isDotLottieFile(file));
+    if (jsonFiles.length === 0 && bundleFiles.length === 0) {
+      setError('Please upload a .json or .lottie Lottie file');
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
+    // Images dropped alongside the JSON files (e.g. their images/ folder)
+    const images = new Map<string, Uint8Array>();
+    if (jsonFiles.length > 0) {
+      for (const { file, path } of files.filter(({ path }) => isImagePath(path))) {
+        images.set(path, new Uint8Array(await file.arrayBuffer()));
+      }
+    }
+
+    const loaded: LoadedFile[] = [];
+    const problems: string[] = [];
+    let missingImages = 0;
+    for (const { file, path } of jsonFiles) {
       try {
-        const json = JSON.parse(e.target?.result as string);
-        onFileLoaded(json, file.name);
-        setError(null);
+        const { data, missing } = inlineImageAssets(JSON.parse(await file.text()), images, getDirectory(path));
+        missingImages += missing.length;
+        loaded.push({ data, name: file.name });
       } catch (err) {
-        setError('Invalid JSON file');
+        problems.push(`${file.name}: invalid JSON`);
       }
-    };
-    reader.readAsText(file);
+    }
+
+    const bundles: { bundle: DotLottieBundle; name: string }[] = [];
+    for (const { file } of bundleFiles) {
+      try {
+        bundles.push({ bundle: readDotLottie(new Uint8Array(await file.arrayBuffer())), name: file.name });
+      } catch (err) {
+        problems.push(`${file.name}: ${err instanceof Error ? err.message : 'could not be read'}`);
+      }
+    }
+    if (missingImages > 0) problems.push(`${missingImages} image asset(s) not found, drop the images folder too`);
+
+    // A lone bundle with a choice to make opens the picker
+    const [single] = bundles;
+    if (loaded.length === 0 && bundles.length === 1 && (single.bundle.animations.length > 1 || single.bundle.themes.length > 0)) {
+      setError(problems.length > 0 ? problems.join(' · ') : null);
+      setBundle(single);
+      return;
+    }
+
+    for (const { bundle, name } of bundles) loaded.push(...getBundleFiles(bundle, name));
+
+    if (loaded.length === 0) {
+      setError(problems.join(' · ') || 'Invalid file');
+      return;
+    }
+    setError(problems.length > 0 ? problems.join(' · ') : null);
+    deliver(loaded);
   };
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
     if (disabled) return;
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      processFile(e.dataTransfer.files[0]);
+    // Folder traversal and reading can fail (permissions, files removed meanwhile)
+    try {
+      await processFiles(await collectDroppedFiles(e.dataTransfer));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the dropped files');
     }
-  }, [disabled, onFileLoaded]);
+  }, [disabled, onFileLoaded, onFilesLoaded]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      processFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      processFiles(fromFileList(e.target.files))
+        .catch((err) => setError(err instanceof Error ? err.message : 'Could not read the selected files'));
     }
   };
 
+  if (bundle) {
+    return (
+      <BundlePicker
+        bundle={bundle.bundle}
+        name={bundle.name}
+        onPick={(file) => deliver([file])}
+        onPickAll={onFilesLoaded}
+        onCancel={() => setBundle(null)}
+      />
+    );
+  }
+
   return (
     <div
       onDragEnter={handleDrag}
@@ -72,7 +191,8 @@ const Dropzone: React.FC<DropzoneProps> = ({ onFileLoaded, disabled }) => {
     >
       <input
         type="file"
-        accept=".json"
+        accept=".json,.lottie,image/*"
+        multiple
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
         onChange={handleChange}
         disabled={disabled}
@@ -84,10 +204,10 @@ const Dropzone: React.FC<DropzoneProps> = ({ onFileLoaded, disabled }) => {
         </div>
         <div>
           <h3 className="text-lg font-semibold text-white">
-            {isDragging ? 'Drop it here!' : 'Click or drag Lottie JSON'}
+            {isDragging ? 'Drop it here!' : 'Click or drag Lottie JSON or .lottie'}
           </h3>
           <p className="text-sm text-gray-400 mt-2">
-            Supports Jitter exports. Max 50MB.
+            Supports Jitter exports. Drop a JSON with its images folder to include external images. Max 50MB.{onFilesLoaded && ' Drop several files or a folder to batch convert.'}
           </p>
         </div>
       </div>
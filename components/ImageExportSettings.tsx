@@ -0,0 +1,101 @@
+import React from 'react';
+import { AnimatedImageOptions, ImageExportOptions, OutputFormat } from '../types';
+import { FPS_OPTIONS } from './AnimatedImageSettings';
+
+interface ImageExportSettingsProps {
+  image: ImageExportOptions;
+  onChange: (image: ImageExportOptions) => void;
+  // Sprite sheets share the GIF / WebP frame rate setting
+  animated: AnimatedImageOptions;
+  onAnimatedChange: (animated: AnimatedImageOptions) => void;
+  format: OutputFormat;
+  renderFps: number;
+  grid?: string; // Resulting sprite sheet grid, e.g. "8 × 6 · 3840×2160px"
+}
+
+const inputClass = 'w-full bg-gray-700 text-gray-200 rounded-md px-2 py-1 text-xs';
+
+const ImageExportSettings: React.FC<ImageExportSettingsProps> = ({ image, onChange, animated, onAnimatedChange, format, renderFps, grid }) => {
+  const set = (patch: Partial<ImageExportOptions>) => onChange({ ...image, ...patch });
+
+  if (format === OutputFormat.SPRITE_SHEET) {
+    return (
+      <div className="grid grid-cols-2 gap-4 text-xs text-gray-400">
+        <label className="space-y-1 block">
+          <span>Frame rate</span>
+          <select
+            value={animated.fps}
+            onChange={(e) => onAnimatedChange({ ...animated, fps: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {FPS_OPTIONS.filter((fps) => fps <= renderFps).map((fps) => (
+              <option key={fps} value={fps}>{fps} FPS</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1 block">
+          <span>Columns</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            placeholder="Auto (square)"
+            value={image.columns ?? ''}
+            onChange={(e) => set({ columns: e.target.value === '' ? null : Math.max(1, Math.round(Number(e.target.value) || 1)) })}
+            className={`${inputClass} font-mono`}
+          />
+        </label>
+
+        <p className="col-span-2 text-gray-500">
+          ZIP with sheet.png and sheet.json (TexturePacker JSON hash, loads in Phaser / PixiJS){grid && ` · ${grid}`}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-4 text-xs text-gray-400">
+      <div className="col-span-2 flex items-end gap-2">
+        <label className="flex-1 space-y-1 block">
+          <span>Frame at (from the range start)</span>
+          <input
+            type="number"
+            min={0}
+            step={image.unit === 'seconds' ? 0.1 : 1}
+            value={image.at}
+            onChange={(e) => set({ at: Math.max(0, Number(e.target.value) || 0) })}
+            className={`${inputClass} font-mono`}
+          />
+        </label>
+        <select
+          value={image.unit}
+          onChange={(e) => set({ unit: e.target.value as ImageExportOptions['unit'], at: 0 })}
+          className="bg-gray-700 text-gray-200 rounded-md px-2 py-1"
+        >
+          <option value="seconds">seconds</option>
+          <option value="frames">frames</option>
+        </select>
+      </div>
+
+      {format !== OutputFormat.STILL_PNG && (
+        <label className="col-span-2 space-y-1 block">
+          <span>Quality</span>
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(image.quality * 100)}
+              onChange={(e) => set({ quality: Number(e.target.value) / 100 })}
+              className="flex-1 accent-emerald-500"
+            />
+            <span className="font-mono w-8 text-right">{Math.round(image.quality * 100)}</span>
+          </div>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ImageExportSettings;
@@ -0,0 +1,200 @@
+import React, { useMemo, useState } from 'react';
+import { Palette, RotateCcw } from 'lucide-react';
+import { LottieFile } from '../types';
+import { ColorKind, EMPTY_OVERRIDES, hasOverrides, listEditables, PropertyOverrides } from '../services/overrides';
+
+interface OverridesPanelProps {
+  animation: LottieFile; // The original file; edits are applied to a copy
+  overrides: PropertyOverrides;
+  onChange: (overrides: PropertyOverrides) => void;
+  disabled: boolean;
+}
+
+type Mode = 'elements' | 'palette';
+
+const KIND_LABELS: Record<ColorKind, string> = {
+  fill: 'Fill',
+  stroke: 'Stroke',
+  gradient: 'Gradient',
+  text: 'Text',
+  solid: 'Solid',
+};
+
+const inputClass = 'w-full bg-gray-700 text-gray-200 rounded-md px-2 py-1 text-xs';
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const OverridesPanel: React.FC<OverridesPanelProps> = ({ animation, overrides, onChange, disabled }) => {
+  const [mode, setMode] = useState<Mode>('elements');
+  const editables = useMemo(() => listEditables(animation), [animation]);
+
+  const setGroup = <K extends keyof PropertyOverrides>(group: K, key: string, value: string | undefined) => {
+    const next = { ...overrides[group] };
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    onChange({ ...overrides, [group]: next });
+  };
+
+  const handleImageChange = async (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setGroup('images', id, await readAsDataUrl(file));
+  };
+
+  const isEmpty = editables.colors.length === 0 && editables.texts.length === 0 && editables.images.length === 0;
+
+  return (
+    <div className="bg-dark-800 rounded-2xl border border-gray-700 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-brand-500">
+          <Palette className="w-5 h-5 mr-2" />
+          <span className="font-semibold text-white">Overrides</span>
+        </div>
+        <div className="flex items-center gap-1 text-xs">
+          {(['elements', 'palette'] as Mode[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`
+                px-3 py-1 rounded-md font-medium transition-all
+                ${mode === m ? 'bg-gray-200 text-gray-900' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+              `}
+            >
+              {m === 'elements' ? 'Per element' : 'Palette'}
+            </button>
+          ))}
+          <button
+            onClick={() => onChange(EMPTY_OVERRIDES)}
+            disabled={disabled || !hasOverrides(overrides)}
+            className="ml-1 p-1 text-gray-400 hover:text-white rounded-md transition disabled:opacity-30"
+            title="Reset all overrides"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {isEmpty ? (
+        <p className="text-sm text-gray-400">This animation has no editable colours, texts or images.</p>
+      ) : mode === 'palette' ? (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">Each swap recolours every property using that colour, animated ones included.</p>
+          <div className="grid grid-cols-2 gap-2 max-h-72 overflow-y-auto pr-1">
+            {editables.palette.map((hex) => (
+              <div key={hex} className="flex items-center gap-2 text-xs font-mono text-gray-400">
+                <span className="w-6 h-6 rounded ring-1 ring-gray-600 flex-shrink-0" style={{ backgroundColor: hex }} />
+                <span>→</span>
+                <input
+                  type="color"
+                  value={overrides.palette[hex] ?? hex}
+                  onChange={(e) => setGroup('palette', hex, e.target.value === hex ? undefined : e.target.value)}
+                  disabled={disabled}
+                  className="w-7 h-7 rounded bg-transparent cursor-pointer"
+                />
+                <span className={overrides.palette[hex] ? 'text-gray-200' : ''}>{overrides.palette[hex] ?? hex}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4 max-h-96 overflow-y-auto pr-1">
+          {editables.texts.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-xs font-medium text-gray-300">Text</span>
+              {editables.texts.map((text) => (
+                <label key={text.id} className="space-y-1 block text-xs text-gray-400">
+                  <span className="truncate block">{text.label}</span>
+                  <textarea
+                    rows={Math.min(3, text.text.split('\n').length)}
+                    value={overrides.texts[text.id] ?? text.text}
+                    onChange={(e) => setGroup('texts', text.id, e.target.value === text.text ? undefined : e.target.value)}
+                    disabled={disabled}
+                    className={`${inputClass} resize-y`}
+                  />
+                </label>
+              ))}
+              {editables.glyphText && (
+                <p className="text-xs text-amber-400/80">Text is drawn from glyphs embedded in the file; characters it doesn't contain won't show.</p>
+              )}
+            </div>
+          )}
+
+          {editables.colors.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-xs font-medium text-gray-300">Colours</span>
+              {editables.colors.map((color) => (
+                <div key={color.id} className="flex items-center gap-2 text-xs text-gray-400">
+                  <input
+                    type="color"
+                    value={overrides.colors[color.id] ?? color.color}
+                    onChange={(e) => setGroup('colors', color.id, e.target.value)}
+                    disabled={disabled}
+                    className="w-7 h-7 rounded bg-transparent cursor-pointer flex-shrink-0"
+                  />
+                  <span className="flex-1 truncate" title={color.label}>{color.label}</span>
+                  <span className="text-gray-500 flex-shrink-0">
+                    {KIND_LABELS[color.kind]}{color.animated ? ' · animated' : ''}
+                  </span>
+                  {overrides.colors[color.id] && (
+                    <button
+                      onClick={() => setGroup('colors', color.id, undefined)}
+                      disabled={disabled}
+                      className="text-gray-500 hover:text-white"
+                      title="Restore the original colour"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {editables.images.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-xs font-medium text-gray-300">Images</span>
+              {editables.images.map((image) => (
+                <div key={image.id} className="flex items-center gap-3 text-xs text-gray-400">
+                  <img
+                    src={overrides.images[image.id] ?? image.src}
+                    alt=""
+                    className="w-12 h-12 object-contain rounded bg-gray-900 ring-1 ring-gray-700 flex-shrink-0"
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <span className="truncate block" title={image.label}>{image.label} · {image.width}×{image.height}</span>
+                    <input
+                      type="file"
+                      accept="image/*"
+                      onChange={(e) => handleImageChange(image.id, e)}
+                      disabled={disabled}
+                      className="block w-full text-xs text-gray-400 file:mr-3 file:px-3 file:py-1 file:rounded-lg file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+                    />
+                  </div>
+                  {overrides.images[image.id] && (
+                    <button
+                      onClick={() => setGroup('images', image.id, undefined)}
+                      disabled={disabled}
+                      className="text-gray-500 hover:text-white"
+                      title="Restore the original image"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">Replacements are stretched to the original image size.</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OverridesPanel;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { AlertTriangle, Info, ShieldCheck, XCircle, Gauge } from 'lucide-react';
+import { PreflightIssue, PreflightReport } from '../services/preflight';
+import { RENDERER_LABELS } from '../services/renderers';
+
+interface PreflightPanelProps {
+  report: PreflightReport;
+}
+
+const COST_STYLES: Record<PreflightReport['cost'], string> = {
+  low: 'text-green-400',
+  medium: 'text-amber-400',
+  high: 'text-red-400',
+};
+
+const IssueIcon: React.FC<{ issue: PreflightIssue }> = ({ issue }) => {
+  switch (issue.severity) {
+    case 'error':
+      return <XCircle className="w-4 h-4 text-red-400 flex-shrink-0" />;
+    case 'warning':
+      return <AlertTriangle className="w-4 h-4 text-amber-400 flex-shrink-0" />;
+    default:
+      return <Info className="w-4 h-4 text-gray-500 flex-shrink-0" />;
+  }
+};
+
+const formatDuration = (seconds: number) =>
+  seconds < 60 ? `${Math.max(1, Math.round(seconds))}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+
+const PreflightPanel: React.FC<PreflightPanelProps> = ({ report }) => {
+  const blocked = report.issues.some((issue) => issue.severity === 'error');
+
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-xl border border-gray-700 space-y-3 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-gray-300 flex items-center">
+          <ShieldCheck className={`w-4 h-4 mr-2 ${blocked ? 'text-red-400' : 'text-brand-500'}`} />
+          Pre-flight Check
+        </span>
+        {!blocked && (
+          <span className="flex items-center text-gray-400 font-mono">
+            <Gauge className={`w-4 h-4 mr-1 ${COST_STYLES[report.cost]}`} />
+            {RENDERER_LABELS[report.renderer]} · {report.renderedFrames} frames · ~{formatDuration(report.estimatedSeconds)}
+          </span>
+        )}
+      </div>
+
+      {report.issues.length > 0 ? (
+        <ul className="space-y-1.5">
+          {report.issues.map((issue, index) => (
+            <li key={index} className="flex items-start gap-2 text-gray-400">
+              <IssueIcon issue={issue} />
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500">No compatibility issues found.</p>
+      )}
+    </div>
+  );
+};
+
+export default PreflightPanel;
@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark, Download, Save, Trash2, Upload } from 'lucide-react';
+import { ConvertOptions } from '../types';
+import {
+  applyPreset,
+  BUILT_IN_PRESETS,
+  deletePreset,
+  exportPresets,
+  importPresets,
+  loadPresets,
+  Preset,
+  savePreset,
+} from '../services/presets';
+
+interface PresetPickerProps {
+  options: ConvertOptions;
+  setOptions: (options: ConvertOptions) => void;
+}
+
+const buttonClass = 'p-1.5 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white transition disabled:opacity-30 disabled:pointer-events-none';
+
+const PresetPicker: React.FC<PresetPickerProps> = ({ options, setOptions }) => {
+  const [saved, setSaved] = useState<Preset[]>(loadPresets);
+  // Last preset applied or saved; cleared once it's deleted
+  const [selected, setSelected] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const findPreset = (name: string) =>
+    saved.find((preset) => preset.name === name) ?? BUILT_IN_PRESETS.find((preset) => preset.name === name);
+  const selectedIsSaved = saved.some((preset) => preset.name === selected);
+
+  const handleSelect = (name: string) => {
+    const preset = findPreset(name);
+    setSelected(name);
+    if (preset) setOptions(applyPreset(options, preset));
+  };
+
+  const handleSave = () => {
+    const name = window.prompt('Preset name', selectedIsSaved ? selected : '')?.trim();
+    if (!name) return;
+    if (BUILT_IN_PRESETS.some((preset) => preset.name === name)) {
+      alert(`"${name}" is a built-in preset. Pick another name.`);
+      return;
+    }
+    setSaved(savePreset(name, options));
+    setSelected(name);
+  };
+
+  const handleDelete = () => {
+    if (!selectedIsSaved || !window.confirm(`Delete the preset "${selected}"?`)) return;
+    setSaved(deletePreset(selected));
+    setSelected('');
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(exportPresets(saved));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'lottie2mp4-presets.json';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setSaved(importPresets(await file.text()));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not import the presets.');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Bookmark className="w-5 h-5 text-brand-500 flex-shrink-0" />
+      <select
+        value={selected}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="flex-1 min-w-0 bg-gray-700 text-gray-200 rounded-md px-2 py-1.5 text-sm"
+      >
+        <option value="" disabled>Presets…</option>
+        <optgroup label="Built-in">
+          {BUILT_IN_PRESETS.map((preset) => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+        </optgroup>
+        {saved.length > 0 && (
+          <optgroup label="Saved">
+            {saved.map((preset) => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+      <button onClick={handleSave} className={buttonClass} title="Save the current settings as a preset">
+        <Save className="w-4 h-4" />
+      </button>
+      <button onClick={handleDelete} disabled={!selectedIsSaved} className={buttonClass} title="Delete the selected preset">
+        <Trash2 className="w-4 h-4" />
+      </button>
+      <button onClick={() => importRef.current?.click()} className={buttonClass} title="Import presets (JSON)">
+        <Upload className="w-4 h-4" />
+      </button>
+      <button onClick={handleExport} disabled={saved.length === 0} className={buttonClass} title="Export saved presets (JSON)">
+        <Download className="w-4 h-4" />
+      </button>
+      <input ref={importRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+    </div>
+  );
+};
+
+export default PresetPicker;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { RangeOptions } from '../types';
+
+interface RangePickerProps {
+  range: RangeOptions;
+  onChange: (range: RangeOptions) => void;
+  markers: string[]; // Marker names of the loaded animation (empty in batch mode)
+}
+
+const inputClass = 'w-full bg-gray-700 text-gray-200 rounded-md px-2 py-1 text-xs';
+
+const parseOptional = (value: string) => value === '' ? null : Number(value);
+
+const RangePicker: React.FC<RangePickerProps> = ({ range, onChange, markers }) => {
+  const set = (patch: Partial<RangeOptions>) => onChange({ ...range, ...patch });
+  const step = range.unit === 'seconds' ? 0.1 : 1;
+
+  return (
+    <div className="grid grid-cols-2 gap-4 text-xs text-gray-400">
+      {markers.length > 0 && (
+        <label className="col-span-2 space-y-1 block">
+          <span>Marker</span>
+          <select
+            value={range.marker ?? ''}
+            onChange={(e) => set({ marker: e.target.value || null })}
+            className={inputClass}
+          >
+            <option value="">Custom range</option>
+            {markers.map((name) => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </label>
+      )}
+
+      {!range.marker && (
+        <div className="col-span-2 flex items-end gap-2">
+          <label className="flex-1 space-y-1 block">
+            <span>In</span>
+            <input
+              type="number"
+              min={0}
+              step={step}
+              placeholder="Start"
+              value={range.start ?? ''}
+              onChange={(e) => set({ start: parseOptional(e.target.value) })}
+              className={`${inputClass} font-mono`}
+            />
+          </label>
+          <label className="flex-1 space-y-1 block">
+            <span>Out</span>
+            <input
+              type="number"
+              min={0}
+              step={step}
+              placeholder="End"
+              value={range.end ?? ''}
+              onChange={(e) => set({ end: parseOptional(e.target.value) })}
+              className={`${inputClass} font-mono`}
+            />
+          </label>
+          <select
+            value={range.unit}
+            onChange={(e) => set({ unit: e.target.value as RangeOptions['unit'], start: null, end: null })}
+            className="bg-gray-700 text-gray-200 rounded-md px-2 py-1"
+          >
+            <option value="frames">frames</option>
+            <option value="seconds">seconds</option>
+          </select>
+        </div>
+      )}
+
+      <label className="space-y-1 block">
+        <span>Repeat</span>
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={range.repeat}
+          disabled={range.targetDuration !== null}
+          onChange={(e) => set({ repeat: Math.max(1, Math.round(Number(e.target.value) || 1)) })}
+          className={`${inputClass} font-mono disabled:opacity-40`}
+        />
+      </label>
+
+      <label className="space-y-1 block">
+        <span>Or loop to (s)</span>
+        <input
+          type="number"
+          min={0.1}
+          step={0.5}
+          placeholder="—"
+          value={range.targetDuration ?? ''}
+          onChange={(e) => set({ targetDuration: parseOptional(e.target.value) })}
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+
+      <label className="col-span-2 flex items-center gap-2 text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={range.pingPong}
+          onChange={(e) => set({ pingPong: e.target.checked })}
+          className="accent-brand-500"
+        />
+        Ping-pong (play forward, then in reverse)
+      </label>
+    </div>
+  );
+};
+
+export default RangePicker;
@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnimationItem } from 'lottie-web';
+import { Camera, Loader2, Pause, Play, SkipBack, SkipForward } from 'lucide-react';
+import { Timeline } from '../services/range';
+
+interface RangeScrubberProps {
+  anim: AnimationItem | null;
+  timeline: Timeline | null; // null while the range settings are invalid
+  // Output time and play state, for anything that plays along (e.g. render comparisons)
+  onClock?: (seconds: number, playing: boolean) => void;
+  fps: number; // Output frame rate, for frame stepping
+  markers?: { name: string; frame: number }[];
+  onRenderFrame?: (seconds: number) => void;
+  renderingFrame?: boolean;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2];
+
+// Plays the preview through the same timeline the export uses, so trims,
+// repeats and ping-pong look exactly like the output.
+const RangeScrubber: React.FC<RangeScrubberProps> = ({ anim, timeline, onClock, fps, markers = [], onRenderFrame, renderingFrame }) => {
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [time, setTime] = useState(0);
+  const timeRef = useRef(0);
+
+  const duration = timeline?.durationSeconds ?? 0;
+  const outputFrames = Math.max(1, Math.ceil(duration * fps - 1e-6));
+  // Output frame shown at a time (the epsilon absorbs float error right on a frame boundary)
+  const frameIndex = (seconds: number) => Math.floor(seconds * fps + 1e-6);
+
+  // Restart from the top whenever the range changes
+  useEffect(() => {
+    timeRef.current = 0;
+    setTime(0);
+  }, [timeline]);
+
+  useEffect(() => {
+    onClock?.(time, playing && !!anim && !!timeline);
+  }, [time, playing, anim, timeline]);
+
+  useEffect(() => {
+    if (!anim || !timeline || !playing) return;
+
+    let frameId = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      timeRef.current = (timeRef.current + ((now - last) / 1000) * speed) % timeline.durationSeconds;
+      last = now;
+      anim.goToAndStop(timeline.frameAt(timeRef.current), true);
+      setTime(timeRef.current);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [anim, timeline, playing, speed]);
+
+  const seek = (seconds: number) => {
+    timeRef.current = seconds;
+    setTime(seconds);
+    if (anim && timeline) anim.goToAndStop(timeline.frameAt(seconds), true);
+  };
+
+  // Moves to the neighbouring output frame, wrapping around the ends
+  const step = (delta: number) => {
+    setPlaying(false);
+    const index = (frameIndex(timeRef.current) + delta + outputFrames) % outputFrames;
+    seek(index / fps);
+  };
+
+  if (!timeline || !anim) {
+    return <div className="px-4 py-3 text-xs text-amber-400">Invalid range — check the in/out points.</div>;
+  }
+
+  const totalFrames = anim.totalFrames || 1;
+  const currentFrame = timeline.frameAt(time);
+  const buttonClass = 'p-1.5 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition disabled:opacity-50';
+
+  return (
+    <div className="px-4 py-3 space-y-2 border-t border-gray-700">
+      <div className="flex items-center gap-3">
+        <button onClick={() => step(-1)} className={buttonClass} title="Previous frame">
+          <SkipBack className="w-4 h-4" />
+        </button>
+        <button onClick={() => setPlaying(!playing)} className={buttonClass} title={playing ? 'Pause' : 'Play'}>
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button onClick={() => step(1)} className={buttonClass} title="Next frame">
+          <SkipForward className="w-4 h-4" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.001}
+          value={time}
+          onChange={(e) => seek(Number(e.target.value))}
+          onPointerDown={() => setPlaying(false)}
+          className="flex-1 accent-brand-500"
+        />
+        <span className="text-xs font-mono text-gray-400 w-24 text-right">
+          {time.toFixed(2)} / {duration.toFixed(2)}s
+        </span>
+      </div>
+
+      {/* Exported segment within the whole animation, with the current frame */}
+      <div className="relative h-1.5 bg-gray-700 rounded-full">
+        <div
+          className="absolute h-full bg-brand-500/60 rounded-full"
+          style={{
+            left: `${(timeline.startFrame / totalFrames) * 100}%`,
+            width: `${((timeline.endFrame - timeline.startFrame) / totalFrames) * 100}%`,
+          }}
+        />
+        {markers.map((marker) => {
+          // Markers inside the range jump to their first play
+          const seconds = (marker.frame - timeline.startFrame) / (anim.frameRate || 30);
+          const reachable = seconds >= 0 && seconds < duration;
+          return (
+            <button
+              key={`${marker.name}-${marker.frame}`}
+              onClick={() => reachable && seek(seconds)}
+              title={marker.name}
+              className={`absolute -top-1 w-1.5 h-3.5 -translate-x-1/2 rounded-sm ${reachable ? 'bg-amber-400 hover:bg-amber-300' : 'bg-gray-500 cursor-default'}`}
+              style={{ left: `${(marker.frame / totalFrames) * 100}%` }}
+            />
+          );
+        })}
+        <div
+          className="absolute -top-0.5 w-0.5 h-2.5 bg-white pointer-events-none"
+          style={{ left: `${(currentFrame / totalFrames) * 100}%` }}
+        />
+      </div>
+      <div className="flex justify-between text-[10px] font-mono text-gray-500">
+        <span>in {Math.round(timeline.startFrame)}</span>
+        <span>frame {Math.floor(currentFrame)} · output {Math.min(frameIndex(time), outputFrames - 1) + 1}/{outputFrames}</span>
+        <span>out {Math.round(timeline.endFrame)}</span>
+      </div>
+
+      <div className="flex items-center justify-between gap-3 pt-1">
+        <div className="flex items-center gap-1">
+          {SPEEDS.map((value) => (
+            <button
+              key={value}
+              onClick={() => setSpeed(value)}
+              className={`px-2 py-0.5 rounded-md text-[11px] font-mono transition ${speed === value ? 'bg-brand-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {value}×
+            </button>
+          ))}
+        </div>
+        {onRenderFrame && (
+          <button
+            onClick={() => { setPlaying(false); onRenderFrame(timeRef.current); }}
+            disabled={renderingFrame}
+            className="flex items-center px-2.5 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md text-xs transition disabled:opacity-50"
+            title="Render this frame the way the export does"
+          >
+            {renderingFrame ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> : <Camera className="w-3.5 h-3.5 mr-1" />}
+            Render Frame
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RangeScrubber;
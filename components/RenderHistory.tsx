@@ -0,0 +1,95 @@
+import React from 'react';
+import { History, Download, Trash2 } from 'lucide-react';
+import { deleteRender, getRenderBlob, isPlayableRender, RenderRecord } from '../services/history';
+import { formatBytes } from '../services/disk';
+
+interface RenderHistoryProps {
+  renders: RenderRecord[];
+  onChange: () => void; // Reload after a delete
+  compareIds?: string[]; // Omit to hide comparison (no live preview to sync with)
+  onCompareChange?: (ids: string[]) => void;
+}
+
+const MAX_COMPARED = 2;
+
+const formatDuration = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s` : `${seconds.toFixed(1)}s`;
+
+const RenderHistory: React.FC<RenderHistoryProps> = ({ renders, onChange, compareIds, onCompareChange }) => {
+  if (renders.length === 0) return null;
+
+  const handleDownload = async (record: RenderRecord) => {
+    try {
+      const url = URL.createObjectURL(await getRenderBlob(record));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = record.outputName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not load the render.');
+    }
+  };
+
+  const handleDelete = async (record: RenderRecord) => {
+    if (!window.confirm(`Delete ${record.outputName} from the history?`)) return;
+    await deleteRender(record.id);
+    onCompareChange?.(compareIds?.filter((id) => id !== record.id) ?? []);
+    onChange();
+  };
+
+  // Selecting a third render replaces the oldest selection
+  const toggleCompare = (id: string) => {
+    if (!compareIds || !onCompareChange) return;
+    onCompareChange(compareIds.includes(id)
+      ? compareIds.filter((selected) => selected !== id)
+      : [...compareIds, id].slice(-MAX_COMPARED));
+  };
+
+  return (
+    <div className="bg-dark-800 rounded-2xl border border-gray-700 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-brand-500">
+          <History className="w-5 h-5 mr-2" />
+          <span className="font-semibold text-white">Render History</span>
+        </div>
+        {compareIds && <span className="text-xs text-gray-500">Tick up to {MAX_COMPARED} to compare</span>}
+      </div>
+
+      <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+        {renders.map((record) => (
+          <li key={record.id} className="flex items-center gap-3 p-2 rounded-lg bg-gray-900/50 text-xs">
+            {compareIds && (
+              <input
+                type="checkbox"
+                checked={compareIds.includes(record.id)}
+                onChange={() => toggleCompare(record.id)}
+                disabled={!isPlayableRender(record)}
+                title={isPlayableRender(record) ? 'Compare' : 'This format cannot be played back'}
+                className="accent-brand-500"
+              />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-gray-200 truncate" title={`${record.outputName} (from ${record.fileName})`}>{record.outputName}</p>
+              <p className="text-gray-500 font-mono truncate">
+                {record.encoder} · {record.width}×{record.height}
+                {record.durationSeconds > 0 && ` · ${formatDuration(record.durationSeconds)}`} · {formatBytes(record.bytes)}
+              </p>
+              <p className="text-gray-500 truncate">
+                {new Date(record.createdAt).toLocaleString()} · rendered in {formatDuration(record.renderSeconds)}
+              </p>
+            </div>
+            <button onClick={() => handleDownload(record)} className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-md transition" title="Download">
+              <Download className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleDelete(record)} className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-md transition" title="Delete">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RenderHistory;
@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { Table, ListVideo, AlertTriangle } from 'lucide-react';
+import { ConvertOptions, LottieFile } from '../types';
+import { listEditables } from '../services/overrides';
+import {
+  Dataset,
+  DEFAULT_NAME_PATTERN,
+  findTemplateFields,
+  formatOutputName,
+  getDatasetColumns,
+  parseDataset,
+  PATTERN_TOKENS,
+} from '../services/template';
+
+interface TemplatePanelProps {
+  animation: LottieFile; // Template, with the overrides panel's edits already applied
+  templateName: string;
+  options: ConvertOptions;
+  onCreateJobs: (dataset: Dataset, pattern: string) => void;
+  disabled: boolean;
+}
+
+const PREVIEW_ROWS = 3;
+
+const TemplatePanel: React.FC<TemplatePanelProps> = ({ animation, templateName, options, onCreateJobs, disabled }) => {
+  const [dataset, setDataset] = useState<{ name: string; rows: Dataset } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pattern, setPattern] = useState(DEFAULT_NAME_PATTERN);
+
+  const fields = useMemo(() => findTemplateFields(listEditables(animation)), [animation]);
+  const columns = dataset ? getDatasetColumns(dataset.rows) : [];
+  const unmatched = dataset ? fields.filter((field) => !columns.includes(field.name)) : [];
+
+  const handleDatasetChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setDataset({ name: file.name, rows: parseDataset(await file.text(), file.name) });
+      setError(null);
+    } catch (err) {
+      setDataset(null);
+      setError(err instanceof Error ? err.message : 'Could not read the dataset.');
+    }
+  };
+
+  return (
+    <div className="bg-dark-800 rounded-2xl border border-gray-700 p-6 space-y-4">
+      <div className="flex items-center text-brand-500">
+        <Table className="w-5 h-5 mr-2" />
+        <span className="font-semibold text-white">Template</span>
+      </div>
+
+      {fields.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Put <code className="text-gray-200">{'{field}'}</code> in a text layer, or name a layer <code className="text-gray-200">{'{field}'}</code> to fill
+          its text, colour or image, then render one file per row of a CSV or JSON dataset.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-1.5">
+          {fields.map((field) => (
+            <span
+              key={field.name}
+              title={field.uses.join('\n')}
+              className={`px-2 py-0.5 rounded-md text-xs font-mono ${unmatched.includes(field) ? 'bg-amber-900/40 text-amber-300' : 'bg-gray-700 text-gray-200'}`}
+            >
+              {`{${field.name}}`}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <input
+        type="file"
+        accept=".csv,.tsv,.json,text/csv,application/json"
+        onChange={handleDatasetChange}
+        disabled={disabled}
+        className="block w-full text-xs text-gray-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+      />
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {dataset && (
+        <div className="space-y-3 text-xs text-gray-400">
+          <p>
+            <span className="text-gray-200">{dataset.name}</span> · {dataset.rows.length} row{dataset.rows.length === 1 ? '' : 's'} · {columns.join(', ')}
+          </p>
+          {unmatched.length > 0 && (
+            <p className="flex items-start text-amber-300">
+              <AlertTriangle className="w-4 h-4 mr-1 flex-shrink-0" />
+              No column for {unmatched.map((field) => `{${field.name}}`).join(', ')}; those placeholders are left as they are.
+            </p>
+          )}
+
+          <label className="space-y-1 block">
+            <span>File names · columns plus {PATTERN_TOKENS.map((token) => `{${token}}`).join(' ')}</span>
+            <input
+              type="text"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              disabled={disabled}
+              className="w-full bg-gray-700 text-gray-200 rounded-md px-2 py-1 text-xs font-mono"
+            />
+          </label>
+          <ul className="font-mono text-gray-500 space-y-0.5">
+            {dataset.rows.slice(0, PREVIEW_ROWS).map((values, i) => (
+              <li key={i} className="truncate">{formatOutputName(templateName, { values, index: i + 1, pattern }, options)}</li>
+            ))}
+            {dataset.rows.length > PREVIEW_ROWS && <li>…</li>}
+          </ul>
+
+          <button
+            onClick={() => onCreateJobs(dataset.rows, pattern)}
+            disabled={disabled}
+            className="w-full py-2 bg-gray-700 hover:bg-gray-600 text-gray-100 rounded-lg text-sm font-medium transition flex items-center justify-center disabled:opacity-50"
+          >
+            <ListVideo className="w-4 h-4 mr-2" />
+            Queue {dataset.rows.length} Render{dataset.rows.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplatePanel;
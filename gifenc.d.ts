@@ -0,0 +1,42 @@
+// Minimal typings for gifenc (the package ships without declarations)
+declare module 'gifenc' {
+  export type Palette = number[][];
+  export type PixelFormat = 'rgb565' | 'rgb444' | 'rgba4444';
+
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: { format?: PixelFormat; oneBitAlpha?: boolean | number; clearAlpha?: boolean }
+  ): Palette;
+
+  export function applyPalette(
+    rgba: Uint8Array | Uint8ClampedArray,
+    palette: Palette,
+    format?: PixelFormat
+  ): Uint8Array;
+
+  export function nearestColorIndex(palette: Palette, pixel: number[]): number;
+
+  export interface GIFStream {
+    writeFrame(
+      index: Uint8Array,
+      width: number,
+      height: number,
+      options?: {
+        palette?: Palette;
+        first?: boolean;
+        transparent?: boolean;
+        transparentIndex?: number;
+        delay?: number;
+        repeat?: number;
+        dispose?: number;
+      }
+    ): void;
+    finish(): void;
+    bytes(): Uint8Array;
+    bytesView(): Uint8Array;
+    reset(): void;
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean; initialCapacity?: number }): GIFStream;
+}
@@ -0,0 +1,128 @@
+// Public entry point of the lottie2mp4 package: the conversion pipeline without
+// the React app. Runs in any browser page (or headless Chrome) with WebCodecs.
+import { ConversionProgress, LottieFile } from '../types';
+import { convertAnimation } from '../services/converter';
+import { DEFAULT_OPTIONS, mergeOptions, OptionOverrides } from '../services/options';
+import { createPreflightReport, PreflightIssue, PreflightReport } from '../services/preflight';
+
+export {
+  AudioCodec,
+  BackgroundType,
+  Codec,
+  FitMode,
+  FrameRate,
+  OutputFormat,
+  RendererKind,
+  Resolution,
+  SizingMode,
+} from '../types';
+export type {
+  AnimatedImageOptions,
+  AudioOptions,
+  BackgroundOptions,
+  ConversionPhase,
+  ConversionProgress,
+  ConvertOptions,
+  EncodingOptions,
+  ImageExportOptions,
+  LottieFile,
+  RangeOptions,
+  SizingOptions,
+  TimingOptions,
+} from '../types';
+export type { OptionOverrides } from '../services/options';
+export type { PreflightIssue, PreflightReport } from '../services/preflight';
+export type { Editables, PropertyOverrides } from '../services/overrides';
+export { DEFAULT_OPTIONS, mergeOptions } from '../services/options';
+export { validateLottie } from '../services/preflight';
+export { applyOverrides, listEditables } from '../services/overrides';
+export { applyTemplateRow, parseDataset } from '../services/template';
+export { getFileExtension } from '../services/encoders';
+
+export interface ConverterEvents {
+  progress: ConversionProgress;
+  // Pre-flight warnings (features the renderer will skip), emitted before rendering starts
+  warning: PreflightIssue;
+}
+
+export interface ConverterConfig {
+  // Defaults for every conversion of this converter
+  options?: OptionOverrides;
+  // Where hidden render elements are mounted (default: document.body)
+  container?: HTMLElement;
+}
+
+export interface Converter {
+  // Returns an unsubscribe function
+  on: <E extends keyof ConverterEvents>(event: E, listener: (payload: ConverterEvents[E]) => void) => () => void;
+  preflight: (animation: LottieFile | string, options?: OptionOverrides) => PreflightReport;
+  convert: (animation: LottieFile | string, options?: OptionOverrides, signal?: AbortSignal) => Promise<Blob>;
+  // Same as convert(); the stream starts delivering bytes once the file is complete
+  stream: (animation: LottieFile | string, options?: OptionOverrides, signal?: AbortSignal) => ReadableStream<Uint8Array>;
+}
+
+const createEmitter = <Events>() => {
+  const listeners = new Map<keyof Events, Set<(payload: any) => void>>();
+  return {
+    on: <E extends keyof Events>(event: E, listener: (payload: Events[E]) => void) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+      return () => {
+        listeners.get(event)?.delete(listener);
+      };
+    },
+    emit: <E extends keyof Events>(event: E, payload: Events[E]) => {
+      listeners.get(event)?.forEach((listener) => listener(payload));
+    },
+  };
+};
+
+const parseAnimation = (animation: LottieFile | string): LottieFile =>
+  typeof animation === 'string' ? JSON.parse(animation) : animation;
+
+export const createConverter = (config: ConverterConfig = {}): Converter => {
+  const emitter = createEmitter<ConverterEvents>();
+  const defaults = mergeOptions(DEFAULT_OPTIONS, config.options ?? {});
+  // The library has no file picker: output is always returned in memory
+  const resolveOptions = (options: OptionOverrides = {}) => ({ ...mergeOptions(defaults, options), streamToDisk: false });
+
+  const convert = async (animation: LottieFile | string, options?: OptionOverrides, signal?: AbortSignal) => {
+    const data = parseAnimation(animation);
+    const resolved = resolveOptions(options);
+
+    for (const issue of createPreflightReport(data, resolved).issues) {
+      if (issue.severity === 'warning') emitter.emit('warning', issue);
+    }
+    return convertAnimation(data, resolved, (progress) => emitter.emit('progress', progress), {
+      signal,
+      container: config.container,
+    });
+  };
+
+  return {
+    on: emitter.on,
+    preflight: (animation, options) => createPreflightReport(parseAnimation(animation), resolveOptions(options)),
+    convert,
+    stream: (animation, options, signal) => {
+      // Cancelling the stream cancels the conversion
+      const abort = new AbortController();
+      const combined = signal ? AbortSignal.any([signal, abort.signal]) : abort.signal;
+      let reader: Promise<ReadableStreamDefaultReader<Uint8Array>> | null = null;
+
+      return new ReadableStream<Uint8Array>({
+        start: () => {
+          reader = convert(animation, options, combined).then((blob) => blob.stream().getReader());
+        },
+        pull: async (controller) => {
+          const { done, value } = await (await reader!).read();
+          if (done) controller.close();
+          else controller.enqueue(value);
+        },
+        cancel: async () => {
+          abort.abort();
+          await (await reader?.catch(() => null))?.cancel();
+        },
+      });
+    },
+  };
+};
@@ -0,0 +1,196 @@
+import { LottieFile, LottieFont } from '../types';
+
+// Waits until everything the animation references can actually be drawn:
+// image assets are fetched and decoded, web fonts used by text layers are
+// loaded, and every layer's refId points at an existing asset.
+
+export interface AssetIssue {
+  id: string;
+  kind: 'image' | 'font' | 'precomp';
+  reason: string;
+}
+
+const ASSET_TIMEOUT_MS = 15_000;
+
+// The timer is cleared once the promise settles, so nothing keeps the (headless) page busy
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout>;
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`timed out after ${ms / 1000}s`)), ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+};
+
+// Embedded assets carry a data URI in `p`; external ones are `u` (folder) + `p` (file)
+export const getImageAssetUrl = (asset: { u?: string; p: string; e?: number }) =>
+  asset.e === 1 || asset.p.startsWith('data:') ? asset.p : `${asset.u ?? ''}${asset.p}`;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+};
+
+const getExtension = (path: string) => path.split('.').pop()?.toLowerCase() ?? '';
+
+const getBaseName = (path: string) => path.split('/').pop() ?? path;
+
+export const isImagePath = (path: string) => getExtension(path) in IMAGE_MIME_TYPES;
+
+// Resolves "." and ".." segments; a leading "/" means the root of the bundle/drop
+export const normalizePath = (path: string) => {
+  const parts: string[] = [];
+  for (const part of path.replace(/\\/g, '/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+};
+
+export const getDirectory = (path: string) => normalizePath(path).split('/').slice(0, -1).join('/');
+
+const toDataUri = (bytes: Uint8Array, path: string) => {
+  let binary = '';
+  // Chunked: String.fromCharCode(...bytes) overflows the stack on large images
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${IMAGE_MIME_TYPES[getExtension(path)] ?? 'application/octet-stream'};base64,${btoa(binary)}`;
+};
+
+// Embeds external image assets (`u` + `p`) as data URIs, looking them up in `files`
+// (paths relative to the bundle/drop root). `baseDir` is the animation's own folder.
+// Images that can't be found are left untouched and reported by id.
+export const inlineImageAssets = (
+  animation: LottieFile,
+  files: Map<string, Uint8Array>,
+  baseDir: string
+): { data: LottieFile; missing: string[] } => {
+  const missing: string[] = [];
+  if (!animation.assets?.length) return { data: animation, missing };
+
+  const findFile = (folder: string, file: string) => {
+    const relative = `${folder}${file}`;
+    const candidates = relative.startsWith('/')
+      ? [normalizePath(relative)]
+      : [normalizePath(`${baseDir}/${relative}`), normalizePath(relative)];
+    for (const candidate of candidates) {
+      const match = files.get(candidate);
+      if (match) return { path: candidate, bytes: match };
+    }
+    // Exporters disagree on folder names; fall back to the file name alone
+    for (const [path, bytes] of files) {
+      if (getBaseName(path) === getBaseName(file)) return { path, bytes };
+    }
+    return null;
+  };
+
+  const assets = animation.assets.map((asset: any) => {
+    if (asset.layers || typeof asset.p !== 'string' || asset.e === 1 || asset.p.startsWith('data:')) return asset;
+    // Hosted images (http:, blob:...) are fetched as they are
+    if (/^[a-z]+:/i.test(`${asset.u ?? ''}${asset.p}`)) return asset;
+    const found = findFile(asset.u ?? '', asset.p);
+    if (!found) {
+      missing.push(asset.id);
+      return asset;
+    }
+    return { ...asset, u: '', p: toDataUri(found.bytes, found.path), e: 1 };
+  });
+
+  return { data: { ...animation, assets }, missing };
+};
+
+const decodeImage = async (url: string) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.src = url;
+  await img.decode();
+};
+
+// refIds and font names used by layers, including those inside precomps
+const collectReferences = (layers: any[], refIds: Set<string>, fontNames: Set<string>) => {
+  for (const layer of layers ?? []) {
+    if (typeof layer.refId === 'string') refIds.add(layer.refId);
+    // Text documents: t.d.k[] keyframes, each with s.f = font name
+    for (const keyframe of layer.t?.d?.k ?? []) {
+      if (typeof keyframe?.s?.f === 'string') fontNames.add(keyframe.s.f);
+    }
+  }
+};
+
+const getFontQuery = (font: LottieFont) => {
+  const style = /italic/i.test(font.fStyle) ? 'italic' : 'normal';
+  const weight = font.fWeight || (/bold/i.test(font.fStyle) ? 'bold' : 'normal');
+  return `${style} ${weight} 16px "${font.fFamily}"`;
+};
+
+export const checkAssets = async (animation: LottieFile): Promise<AssetIssue[]> => {
+  const assets = animation.assets ?? [];
+  const issues: AssetIssue[] = [];
+  const refIds = new Set<string>();
+  const fontNames = new Set<string>();
+
+  collectReferences(animation.layers, refIds, fontNames);
+  for (const asset of assets) {
+    if (Array.isArray(asset.layers)) collectReferences(asset.layers, refIds, fontNames);
+  }
+
+  // Layers pointing at assets that do not exist
+  const assetIds = new Set(assets.map((a: any) => a.id));
+  for (const refId of refIds) {
+    if (!assetIds.has(refId)) issues.push({ id: refId, kind: 'precomp', reason: 'referenced by a layer but missing from assets' });
+  }
+
+  // Image assets (precomps have `layers`, images have a path)
+  const imageChecks = assets
+    .filter((asset: any) => !asset.layers && typeof asset.p === 'string')
+    .map(async (asset: any) => {
+      try {
+        await withTimeout(decodeImage(getImageAssetUrl(asset)), ASSET_TIMEOUT_MS);
+      } catch (err) {
+        const reason = err instanceof Error && err.message ? err.message : 'could not be loaded or decoded';
+        issues.push({ id: asset.id, kind: 'image', reason: `${getImageAssetUrl(asset).slice(0, 80)} ${reason}` });
+      }
+    });
+
+  // Fonts used by text layers, unless the glyphs are baked in as shapes
+  const fonts = animation.fonts?.list ?? [];
+  const glyphFamilies = new Set((animation.chars ?? []).map((c) => c.fFamily));
+  const fontChecks = [...fontNames].map(async (name) => {
+    const font = fonts.find((f) => f.fName === name);
+    if (!font) {
+      issues.push({ id: name, kind: 'font', reason: 'used by a text layer but missing from fonts' });
+      return;
+    }
+    if (glyphFamilies.has(font.fFamily) || typeof document === 'undefined' || !document.fonts) return;
+    try {
+      const faces = await withTimeout(document.fonts.load(getFontQuery(font)), ASSET_TIMEOUT_MS);
+      // An empty result is fine for locally installed fonts, but means a web font never arrived
+      if (faces.length === 0 && font.fPath) {
+        issues.push({ id: name, kind: 'font', reason: `web font "${font.fFamily}" could not be loaded from ${font.fPath}` });
+      }
+    } catch (err) {
+      issues.push({ id: name, kind: 'font', reason: err instanceof Error ? err.message : 'could not be loaded' });
+    }
+  });
+
+  await Promise.all([...imageChecks, ...fontChecks]);
+  return issues;
+};
+
+export const formatAssetIssues = (issues: AssetIssue[]) =>
+  issues.map((issue) => `${issue.kind} "${issue.id}": ${issue.reason}`).join('\n');
+
+// Throws a single error listing everything that could not be resolved
+export const ensureAssetsReady = async (animation: LottieFile) => {
+  const issues = await checkAssets(animation);
+  if (issues.length > 0) {
+    throw new Error(`Some assets could not be resolved:\n${formatAssetIssues(issues)}`);
+  }
+};
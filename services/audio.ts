@@ -0,0 +1,138 @@
+import { AudioCodec, AudioOptions } from '../types';
+import { MICROSECONDS_PER_SECOND } from './timing';
+
+export const DEFAULT_AUDIO: AudioOptions = {
+  codec: AudioCodec.AAC,
+  bitrate: 128_000,
+  marker: null,
+  offset: 0,
+  loop: false,
+  fadeIn: 0,
+  fadeOut: 0,
+};
+
+export const AUDIO_CODEC_LABELS: Record<AudioCodec, string> = {
+  [AudioCodec.AAC]: 'AAC',
+  [AudioCodec.OPUS]: 'Opus',
+};
+
+// Both codecs are happy at 48 kHz, and Opus accepts nothing else
+const SAMPLE_RATE = 48_000;
+
+const CODEC_STRINGS: Record<AudioCodec, string> = {
+  [AudioCodec.AAC]: 'mp4a.40.2', // AAC-LC
+  [AudioCodec.OPUS]: 'opus',
+};
+
+// The decoded, trimmed and faded audio for one conversion, ready to encode
+export interface Soundtrack {
+  buffer: AudioBuffer;
+  codec: AudioCodec;
+  bitrate: number;
+}
+
+const decodeAudioFile = async (file: File): Promise<AudioBuffer> => {
+  // decodeAudioData resamples to the context's rate; the context itself never renders
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  try {
+    return await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error(`Could not decode the audio file "${file.name}". Use WAV, MP3 or AAC.`);
+  }
+};
+
+// Lays the audio out against the output timeline: `start` seconds in (negative skips
+// into the audio), looped or followed by silence, faded, and cut at `duration`
+export const createSoundtrack = async (
+  file: File,
+  options: AudioOptions,
+  start: number,
+  duration: number
+): Promise<Soundtrack> => {
+  const source = await decodeAudioFile(file);
+  const context = new OfflineAudioContext(
+    Math.min(2, source.numberOfChannels),
+    Math.max(1, Math.round(duration * SAMPLE_RATE)),
+    SAMPLE_RATE
+  );
+
+  const node = context.createBufferSource();
+  node.buffer = source;
+  node.loop = options.loop;
+  const gain = context.createGain();
+  node.connect(gain).connect(context.destination);
+
+  const when = Math.max(0, start);
+  const skip = Math.max(0, -start);
+  if (!options.loop && skip >= source.duration) {
+    throw new Error("The audio offset skips past the end of the audio file.");
+  }
+  node.start(when, options.loop ? skip % source.duration : skip);
+
+  const end = options.loop ? duration : Math.min(duration, when + source.duration - skip);
+  const fadeInEnd = Math.min(end, when + options.fadeIn);
+  if (options.fadeIn > 0) {
+    gain.gain.setValueAtTime(0, when);
+    gain.gain.linearRampToValueAtTime(1, fadeInEnd);
+  }
+  if (options.fadeOut > 0) {
+    gain.gain.setValueAtTime(1, Math.max(fadeInEnd, end - options.fadeOut));
+    gain.gain.linearRampToValueAtTime(0, end);
+  }
+
+  return { buffer: await context.startRendering(), codec: options.codec, bitrate: options.bitrate };
+};
+
+// Falls back to the other codec when the browser can't encode the preferred one
+// (Chromium builds without proprietary codecs have no AAC encoder)
+export const findAudioEncoderConfig = async ({ buffer, codec, bitrate }: Soundtrack) => {
+  const candidates = [codec, ...Object.values(AudioCodec).filter((other) => other !== codec)];
+  for (const candidate of candidates) {
+    const config: AudioEncoderConfig = {
+      codec: CODEC_STRINGS[candidate],
+      sampleRate: buffer.sampleRate,
+      numberOfChannels: buffer.numberOfChannels,
+      bitrate,
+    };
+    const { supported } = await AudioEncoder.isConfigSupported(config).catch(() => ({ supported: false }));
+    if (supported) return { codec: candidate, config };
+  }
+  return null;
+};
+
+// Feeds the whole soundtrack through an AudioEncoder in one-second chunks
+export const encodeSoundtrack = async (
+  buffer: AudioBuffer,
+  config: AudioEncoderConfig,
+  output: EncodedAudioChunkOutputCallback
+) => {
+  const encoder = new AudioEncoder({
+    output,
+    error: (e) => console.error("AudioEncoder error:", e),
+  });
+  encoder.configure(config);
+
+  const channels = buffer.numberOfChannels;
+  try {
+    for (let offset = 0; offset < buffer.length; offset += buffer.sampleRate) {
+      const frames = Math.min(buffer.sampleRate, buffer.length - offset);
+      const planes = new Float32Array(frames * channels);
+      for (let c = 0; c < channels; c++) {
+        planes.set(buffer.getChannelData(c).subarray(offset, offset + frames), c * frames);
+      }
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate: buffer.sampleRate,
+        numberOfFrames: frames,
+        numberOfChannels: channels,
+        timestamp: Math.round((offset / buffer.sampleRate) * MICROSECONDS_PER_SECOND),
+        data: planes,
+      });
+      encoder.encode(data);
+      data.close();
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+};
@@ -0,0 +1,151 @@
+import { Input, BlobSource, ALL_FORMATS, VideoSampleSink } from 'mediabunny';
+import { BackgroundOptions, BackgroundType } from '../types';
+
+export const DEFAULT_BACKGROUND: BackgroundOptions = {
+  type: BackgroundType.SOLID,
+  color: '#ffffff',
+  gradientTo: '#0ea5e9',
+  gradientAngle: 180,
+};
+
+// Paints the background of a single output frame before the animation is drawn on top
+export interface BackgroundPainter {
+  paint: (ctx: CanvasRenderingContext2D, timeSeconds: number) => Promise<void>;
+  dispose: () => void;
+}
+
+// Draws `source` scaled to cover the whole w x h box, cropping the overflow (CSS `object-fit: cover`)
+const drawCover = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  srcW: number,
+  srcH: number,
+  w: number,
+  h: number
+) => {
+  const scale = Math.max(w / srcW, h / srcH);
+  const dw = srcW * scale;
+  const dh = srcH * scale;
+  ctx.drawImage(source, (w - dw) / 2, (h - dh) / 2, dw, dh);
+};
+
+// Mirrors the CSS linear-gradient() angle convention so the export matches the preview
+const createLinearGradient = (ctx: CanvasRenderingContext2D, bg: BackgroundOptions, w: number, h: number) => {
+  const rad = (bg.gradientAngle * Math.PI) / 180;
+  const dx = Math.sin(rad);
+  const dy = -Math.cos(rad);
+  const halfLength = (Math.abs(w * dx) + Math.abs(h * dy)) / 2;
+
+  const gradient = ctx.createLinearGradient(
+    w / 2 - dx * halfLength, h / 2 - dy * halfLength,
+    w / 2 + dx * halfLength, h / 2 + dy * halfLength
+  );
+  gradient.addColorStop(0, bg.color);
+  gradient.addColorStop(1, bg.gradientTo);
+  return gradient;
+};
+
+// Matches `radial-gradient(circle farthest-corner at center, ...)`
+const createRadialGradient = (ctx: CanvasRenderingContext2D, bg: BackgroundOptions, w: number, h: number) => {
+  const radius = Math.hypot(w, h) / 2;
+  const gradient = ctx.createRadialGradient(w / 2, h / 2, 0, w / 2, h / 2, radius);
+  gradient.addColorStop(0, bg.color);
+  gradient.addColorStop(1, bg.gradientTo);
+  return gradient;
+};
+
+const createFillPainter = (fill: string | CanvasGradient, w: number, h: number): BackgroundPainter => ({
+  paint: async (ctx) => {
+    ctx.fillStyle = fill;
+    ctx.fillRect(0, 0, w, h);
+  },
+  dispose: () => {},
+});
+
+const createImagePainter = async (file: File, w: number, h: number): Promise<BackgroundPainter> => {
+  const bitmap = await createImageBitmap(file);
+
+  return {
+    paint: async (ctx) => drawCover(ctx, bitmap, bitmap.width, bitmap.height, w, h),
+    dispose: () => bitmap.close(),
+  };
+};
+
+// Video plates are demuxed with mediabunny, which decodes through WebCodecs' VideoDecoder.
+// The plate loops when the animation is longer than the clip.
+const createVideoPainter = async (file: File): Promise<BackgroundPainter> => {
+  const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+  const track = await input.getPrimaryVideoTrack();
+
+  if (!track) {
+    input.dispose();
+    throw new Error(`Background video "${file.name}" has no video track.`);
+  }
+  if (!(await track.canDecode())) {
+    input.dispose();
+    throw new Error(`Background video "${file.name}" uses a codec your browser cannot decode.`);
+  }
+
+  const firstTimestamp = await track.getFirstTimestamp();
+  const duration = (await track.computeDuration()) - firstTimestamp;
+  const sink = new VideoSampleSink(track);
+
+  return {
+    paint: async (ctx, timeSeconds) => {
+      const loopedTime = duration > 0 ? timeSeconds % duration : 0;
+      const sample = await sink.getSample(firstTimestamp + loopedTime);
+      if (!sample) return;
+
+      try {
+        sample.drawWithFit(ctx, { fit: 'cover' });
+      } finally {
+        sample.close();
+      }
+    },
+    dispose: () => input.dispose(),
+  };
+};
+
+export const createBackgroundPainter = async (
+  bg: BackgroundOptions,
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number
+): Promise<BackgroundPainter> => {
+  switch (bg.type) {
+    case BackgroundType.LINEAR_GRADIENT:
+      return createFillPainter(createLinearGradient(ctx, bg, w, h), w, h);
+    case BackgroundType.RADIAL_GRADIENT:
+      return createFillPainter(createRadialGradient(ctx, bg, w, h), w, h);
+    case BackgroundType.IMAGE:
+      if (!bg.media) throw new Error("Please choose a background image.");
+      return createImagePainter(bg.media, w, h);
+    case BackgroundType.VIDEO:
+      if (!bg.media) throw new Error("Please choose a background video.");
+      return createVideoPainter(bg.media);
+    case BackgroundType.SOLID:
+    default:
+      return createFillPainter(bg.color, w, h);
+  }
+};
+
+// CSS equivalent of the painted background, used by the preview and the swatch.
+// Image/video plates need an object URL for the media, which the caller owns.
+export const getBackgroundCss = (bg: BackgroundOptions, mediaUrl?: string): string => {
+  switch (bg.type) {
+    case BackgroundType.LINEAR_GRADIENT:
+      return `linear-gradient(${bg.gradientAngle}deg, ${bg.color}, ${bg.gradientTo})`;
+    case BackgroundType.RADIAL_GRADIENT:
+      return `radial-gradient(circle farthest-corner at center, ${bg.color}, ${bg.gradientTo})`;
+    case BackgroundType.IMAGE:
+      return mediaUrl ? `center / cover no-repeat url("${mediaUrl}")` : '#1f2937';
+    case BackgroundType.VIDEO:
+      return '#000000';
+    case BackgroundType.SOLID:
+    default:
+      return bg.color;
+  }
+};
+
+// Checkerboard shown behind the preview for alpha-preserving formats
+export const TRANSPARENT_CSS = 'repeating-conic-gradient(#374151 0% 25%, #1f2937 0% 50%) 50% / 20px 20px';
@@ -0,0 +1,99 @@
+import { zipSync, Zippable } from 'fflate';
+import { BatchJob, ConversionStatus, ConvertOptions, LoadedFile } from '../types';
+import { renderAndConvert } from './converter';
+import { getFileExtension, getOutputFps } from './encoders';
+import { ConversionControl, isAbortError } from './control';
+import { applyTemplateRow, Dataset, formatOutputName } from './template';
+
+export const createBatchJobs = (files: LoadedFile[]): BatchJob[] =>
+  files.map(({ data, name }) => ({
+    id: crypto.randomUUID(),
+    fileName: name.replace(/\.json$/i, ''),
+    data,
+    overrides: {},
+    status: { state: 'idle', progress: 0 },
+  }));
+
+// One job per dataset row, all sharing the template; each row is patched in when its job runs
+export const createTemplateJobs = (template: LoadedFile, dataset: Dataset, pattern: string): BatchJob[] =>
+  dataset.map((values, i) => ({
+    ...createBatchJobs([template])[0],
+    template: { values, index: i + 1, pattern },
+  }));
+
+export const resolveJobOptions = (job: BatchJob, base: ConvertOptions): ConvertOptions => ({
+  ...base,
+  ...job.overrides,
+});
+
+export const getOutputFileName = (fileName: string, options: ConvertOptions) =>
+  `${fileName}_${options.resolution}_${getOutputFps(options.format, options.fps, options.animated)}fps.${getFileExtension(options.format)}`;
+
+export const getJobOutputName = (job: BatchJob, options: ConvertOptions) =>
+  job.template ? formatOutputName(job.fileName, job.template, options) : getOutputFileName(job.fileName, options);
+
+// Runs every unfinished job one after another. Jobs are independent: a failing
+// job is marked as errored and the queue moves on; aborting stops the whole queue.
+export const runBatch = async (
+  jobs: BatchJob[],
+  baseOptions: ConvertOptions,
+  onJobStatus: (id: string, status: ConversionStatus) => void,
+  control: ConversionControl = {}
+): Promise<void> => {
+  const { signal } = control;
+  const pending = jobs.filter((job) => job.status.state !== 'completed');
+
+  for (let index = 0; index < pending.length; index++) {
+    const job = pending[index];
+
+    if (signal?.aborted) {
+      onJobStatus(job.id, { state: 'cancelled', progress: 0, message: 'Cancelled' });
+      continue;
+    }
+
+    const prefix = `[${index + 1}/${pending.length}]`;
+    onJobStatus(job.id, { state: 'rendering', progress: 0, message: `${prefix} Initializing Renderer...` });
+
+    try {
+      const url = await renderAndConvert(
+        job.template ? await applyTemplateRow(job.data, job.template.values) : job.data,
+        resolveJobOptions(job, baseOptions),
+        (msg, pct) => onJobStatus(job.id, {
+          state: control.pauser?.paused ? 'paused' : 'rendering',
+          progress: pct,
+          message: `${prefix} ${msg}`,
+        }),
+        control
+      );
+      onJobStatus(job.id, { state: 'completed', progress: 100, message: 'Done', outputUrl: url });
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        onJobStatus(job.id, { state: 'cancelled', progress: 0, message: 'Cancelled' });
+      } else {
+        onJobStatus(job.id, { state: 'error', progress: 0, error: error?.message ?? String(error) });
+      }
+    }
+  }
+};
+
+// Bundles all completed outputs into a single ZIP, de-duplicating file names
+export const bundleBatchResults = async (jobs: BatchJob[], baseOptions: ConvertOptions): Promise<Blob> => {
+  const files: Zippable = {};
+
+  for (const job of jobs) {
+    const { outputUrl } = job.status;
+    if (job.status.state !== 'completed' || !outputUrl) continue;
+
+    const baseName = getJobOutputName(job, resolveJobOptions(job, baseOptions));
+    let name = baseName;
+    for (let n = 2; files[name]; n++) {
+      name = baseName.replace(/(\.\w+)$/, `_${n}$1`);
+    }
+
+    const response = await fetch(outputUrl);
+    files[name] = new Uint8Array(await response.arrayBuffer());
+  }
+
+  // Video outputs are already compressed; storing keeps bundling fast
+  return new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' });
+};
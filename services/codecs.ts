@@ -0,0 +1,150 @@
+import { Codec, OutputFormat } from '../types';
+
+export const CODEC_LABELS: Record<Codec, string> = {
+  [Codec.H264]: 'H.264',
+  [Codec.HEVC]: 'HEVC',
+  [Codec.VP9]: 'VP9',
+  [Codec.AV1]: 'AV1',
+};
+
+// Codecs each container can carry, in order of preference
+export const CODECS_BY_FORMAT: Record<OutputFormat, Codec[]> = {
+  [OutputFormat.MP4]: [Codec.H264, Codec.HEVC, Codec.VP9, Codec.AV1],
+  [OutputFormat.WEBM]: [Codec.VP9, Codec.AV1],
+  [OutputFormat.WEBM_ALPHA]: [Codec.VP9],
+  [OutputFormat.PNG_SEQUENCE]: [],
+  [OutputFormat.GIF]: [],
+  [OutputFormat.WEBP]: [],
+  [OutputFormat.STILL_PNG]: [],
+  [OutputFormat.STILL_JPEG]: [],
+  [OutputFormat.STILL_WEBP]: [],
+  [OutputFormat.SPRITE_SHEET]: [],
+};
+
+// Keeps the chosen codec if the container supports it, otherwise picks the container's default
+export const resolveCodec = (format: OutputFormat, codec: Codec): Codec => {
+  const allowed = CODECS_BY_FORMAT[format];
+  return allowed.includes(codec) || allowed.length === 0 ? codec : allowed[0];
+};
+
+// --- Level selection ---
+// Each table lists the lowest level able to carry a given picture size and
+// sample rate (luma samples per second), as defined by the codec specs.
+
+interface LevelLimit {
+  id: string;
+  maxPictureSize: number;
+  maxSampleRate: number;
+}
+
+const H264_LEVELS: LevelLimit[] = [
+  // H.264 limits are in macroblocks (16x16), converted here to luma samples
+  { id: '1f', maxPictureSize: 3600 * 256, maxSampleRate: 108000 * 256 },      // 3.1
+  { id: '28', maxPictureSize: 8192 * 256, maxSampleRate: 245760 * 256 },      // 4.0
+  { id: '2a', maxPictureSize: 8704 * 256, maxSampleRate: 522240 * 256 },      // 4.2
+  { id: '32', maxPictureSize: 22080 * 256, maxSampleRate: 589824 * 256 },     // 5.0
+  { id: '33', maxPictureSize: 36864 * 256, maxSampleRate: 983040 * 256 },     // 5.1
+  { id: '34', maxPictureSize: 36864 * 256, maxSampleRate: 2073600 * 256 },    // 5.2
+  { id: '3c', maxPictureSize: 139264 * 256, maxSampleRate: 4177920 * 256 },   // 6.0
+  { id: '3d', maxPictureSize: 139264 * 256, maxSampleRate: 8355840 * 256 },   // 6.1
+  { id: '3e', maxPictureSize: 139264 * 256, maxSampleRate: 16711680 * 256 },  // 6.2
+];
+
+const HEVC_LEVELS: LevelLimit[] = [
+  { id: '93', maxPictureSize: 983040, maxSampleRate: 33177600 },      // 3.1
+  { id: '120', maxPictureSize: 2228224, maxSampleRate: 66846720 },    // 4.0
+  { id: '123', maxPictureSize: 2228224, maxSampleRate: 133693440 },   // 4.1
+  { id: '150', maxPictureSize: 8912896, maxSampleRate: 267386880 },   // 5.0
+  { id: '153', maxPictureSize: 8912896, maxSampleRate: 534773760 },   // 5.1
+  { id: '156', maxPictureSize: 8912896, maxSampleRate: 1069547520 },  // 5.2
+  { id: '180', maxPictureSize: 35651584, maxSampleRate: 1069547520 }, // 6.0
+  { id: '183', maxPictureSize: 35651584, maxSampleRate: 2139095040 }, // 6.1
+  { id: '186', maxPictureSize: 35651584, maxSampleRate: 4278190080 }, // 6.2
+];
+
+const VP9_LEVELS: LevelLimit[] = [
+  { id: '31', maxPictureSize: 983040, maxSampleRate: 36864000 },      // 3.1
+  { id: '40', maxPictureSize: 2228224, maxSampleRate: 83558400 },     // 4.0
+  { id: '41', maxPictureSize: 2228224, maxSampleRate: 160432128 },    // 4.1
+  { id: '50', maxPictureSize: 8912896, maxSampleRate: 311951360 },    // 5.0
+  { id: '51', maxPictureSize: 8912896, maxSampleRate: 588251136 },    // 5.1
+  { id: '52', maxPictureSize: 8912896, maxSampleRate: 1176502272 },   // 5.2
+  { id: '60', maxPictureSize: 35651584, maxSampleRate: 1176502272 },  // 6.0
+  { id: '61', maxPictureSize: 35651584, maxSampleRate: 2353004544 },  // 6.1
+  { id: '62', maxPictureSize: 35651584, maxSampleRate: 4706009088 },  // 6.2
+];
+
+const AV1_LEVELS: LevelLimit[] = [
+  { id: '05', maxPictureSize: 1065024, maxSampleRate: 31950720 },     // 3.1
+  { id: '08', maxPictureSize: 2359296, maxSampleRate: 70778880 },     // 4.0
+  { id: '09', maxPictureSize: 2359296, maxSampleRate: 141557760 },    // 4.1
+  { id: '12', maxPictureSize: 8912896, maxSampleRate: 267386880 },    // 5.0
+  { id: '13', maxPictureSize: 8912896, maxSampleRate: 534773760 },    // 5.1
+  { id: '14', maxPictureSize: 8912896, maxSampleRate: 1069547520 },   // 5.2
+  { id: '16', maxPictureSize: 35651584, maxSampleRate: 1069547520 },  // 6.0
+  { id: '17', maxPictureSize: 35651584, maxSampleRate: 2139095040 },  // 6.1
+  { id: '18', maxPictureSize: 35651584, maxSampleRate: 4278190080 },  // 6.2
+];
+
+const pickLevel = (levels: LevelLimit[], width: number, height: number, fps: number) => {
+  const pictureSize = width * height;
+  const sampleRate = pictureSize * fps;
+  const level = levels.find((l) => pictureSize <= l.maxPictureSize && sampleRate <= l.maxSampleRate);
+  return (level ?? levels[levels.length - 1]).id;
+};
+
+// WebCodecs codec strings to try, best first. Several candidates are returned
+// where a lower profile is a useful fallback (e.g. H.264 High -> Main).
+export const getCodecCandidates = (codec: Codec, width: number, height: number, fps: number): string[] => {
+  switch (codec) {
+    case Codec.HEVC: {
+      const level = pickLevel(HEVC_LEVELS, width, height, fps);
+      return [`hvc1.1.6.L${level}.B0`]; // Main profile
+    }
+    case Codec.VP9: {
+      const level = pickLevel(VP9_LEVELS, width, height, fps);
+      return [`vp09.00.${level}.08`]; // Profile 0, 8-bit
+    }
+    case Codec.AV1: {
+      const level = pickLevel(AV1_LEVELS, width, height, fps);
+      return [`av01.0.${level}M.08`]; // Main profile, Main tier, 8-bit
+    }
+    case Codec.H264:
+    default: {
+      const level = pickLevel(H264_LEVELS, width, height, fps);
+      return [`avc1.6400${level}`, `avc1.4d00${level}`]; // High -> Main
+    }
+  }
+};
+
+// Returns the first codec string the browser can encode with, or null
+export const findSupportedConfig = async (
+  codec: Codec,
+  config: Omit<VideoEncoderConfig, 'codec'>
+): Promise<VideoEncoderConfig | null> => {
+  if (typeof VideoEncoder === 'undefined') return null;
+
+  for (const codecString of getCodecCandidates(codec, config.width, config.height, config.framerate ?? 30)) {
+    const candidate = { ...config, codec: codecString };
+    try {
+      const support = await VideoEncoder.isConfigSupported(candidate);
+      if (support.supported) return candidate;
+    } catch (e) {
+      console.warn(`Config check failed for ${codecString}.`, e);
+    }
+  }
+  return null;
+};
+
+// Probes which codecs this browser can encode at the given size/fps (used to grey out options)
+export const probeCodecSupport = async (
+  width: number,
+  height: number,
+  fps: number
+): Promise<Record<Codec, boolean>> => {
+  const codecs = Object.values(Codec);
+  const results = await Promise.all(
+    codecs.map((codec) => findSupportedConfig(codec, { width, height, framerate: fps, bitrate: 10_000_000 }))
+  );
+  return Object.fromEntries(codecs.map((codec, i) => [codec, results[i] !== null])) as Record<Codec, boolean>;
+};
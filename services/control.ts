@@ -0,0 +1,59 @@
+// Runtime plumbing for long-running conversions: cancellation, pause/resume
+// and the output file. Cancellation uses the standard AbortSignal; pausing is
+// cooperative and is honoured by the render loop between frames.
+
+export interface PauseController {
+  readonly paused: boolean;
+  pause: () => void;
+  resume: () => void;
+  // Resolves immediately when running, otherwise once resumed. Rejects if `signal` aborts meanwhile.
+  waitIfPaused: (signal?: AbortSignal) => Promise<void>;
+}
+
+export interface ConversionControl {
+  signal?: AbortSignal;
+  pauser?: PauseController;
+  // Destination for ConvertOptions.streamToDisk; without it the output is buffered in memory
+  fileHandle?: FileSystemFileHandle;
+  // Where the renderers mount their hidden work elements (default: document.body)
+  container?: HTMLElement;
+}
+
+export const createPauseController = (): PauseController => {
+  let paused = false;
+  let waiters: (() => void)[] = [];
+
+  return {
+    get paused() {
+      return paused;
+    },
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      const pending = waiters;
+      waiters = [];
+      pending.forEach((release) => release());
+    },
+    waitIfPaused: (signal) => {
+      if (!paused) return Promise.resolve();
+
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        const onAbort = () => reject(signal!.reason);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        waiters.push(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        });
+      });
+    },
+  };
+};
+
+export const isAbortError = (err: unknown) =>
+  err instanceof DOMException && err.name === 'AbortError';
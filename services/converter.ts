@@ -1,239 +1,289 @@
-import lottie, { AnimationItem } from 'lottie-web';
-import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
-import { ConvertOptions, LottieFile, Resolution } from '../types';
-
-const getDimensions = (res: Resolution, originalW: number, originalH: number) => {
-  let targetW = 1920;
-  let targetH = 1080;
-
-  switch (res) {
-    case Resolution.HD:
-      targetW = 1280;
-      targetH = 720;
-      break;
-    case Resolution.FHD:
-      targetW = 1920;
-      targetH = 1080;
-      break;
-    case Resolution.UHD:
-      targetW = 3840;
-      targetH = 2160;
-      break;
-  }
-  
-  // Ensure dimensions are even numbers (required by many codecs)
-  if (targetW % 2 !== 0) targetW--;
-  if (targetH % 2 !== 0) targetH--;
+import { ConversionProgress, ConvertOptions, LottieFile, OutputFormat } from '../types';
+import { createFrameSink, FrameSink, getOutputFps, isAnimatedImageFormat, isStillFormat, isTransparentFormat, requiresWebCodecs, supportsAudio } from './encoders';
+import { BackgroundPainter, createBackgroundPainter } from './background';
+import { getDimensions } from './sizing';
+import { resolveCodec } from './codecs';
+import { ConversionControl, isAbortError } from './control';
+import { formatBytes } from './disk';
+import { createTimeline, getMarkerTime } from './range';
+import { createSoundtrack, Soundtrack } from './audio';
+import { createFrameSchedule, createStillFrame, FrameSample, getFrameSamples } from './timing';
+import { createRenderer, FrameRenderer, releaseFrame } from './renderers';
+import { runOrderedPipeline } from './pipeline';
+import { assertValidLottie } from './preflight';
 
-  return { w: targetW, h: targetH };
-};
+// Size-budget retries for GIF / WebP
+const MAX_SIZE_PASSES = 5;
+const MIN_DOWNSCALED_EDGE = 32;
 
-// Helper to load an image from a source URL/Blob
-const loadImage = (src: string): Promise<HTMLImageElement> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => resolve(img);
-    img.onerror = (e) => reject(e);
-    img.src = src;
-  });
-};
-
-export const renderAndConvert = async (
+// Renders and encodes the animation, returning the finished file
+export const convertAnimation = async (
   animationData: LottieFile,
   options: ConvertOptions,
-  onProgress: (msg: string, percent: number) => void
-): Promise<string> => {
-  const { resolution, fps } = options;
-  const { w, h } = getDimensions(resolution, animationData.w, animationData.h);
+  onProgress: (progress: ConversionProgress) => void,
+  control: ConversionControl = {}
+): Promise<Blob> => {
+  const { signal, pauser, fileHandle, container } = control;
+  signal?.throwIfAborted();
+  assertValidLottie(animationData);
+
+  const { resolution, sizing, fps, format, background, streamToDisk } = options;
+  const { w, h } = getDimensions(resolution, sizing, animationData.w, animationData.h);
+  const transparent = isTransparentFormat(format);
 
-  if (typeof VideoEncoder === 'undefined') {
+  if (requiresWebCodecs(format) && typeof VideoEncoder === 'undefined') {
     throw new Error("Your browser does not support the WebCodecs API. Please use the latest Chrome or Edge.");
   }
 
-  // --- SVG RENDERER SETUP (HIGH FIDELITY) ---
-  
-  // 1. Create a hidden container for the SVG renderer
-  const container = document.createElement('div');
-  container.style.width = `${w}px`;
-  container.style.height = `${h}px`;
-  container.style.position = 'fixed';
-  container.style.left = '-9999px';
-  container.style.top = '0';
-  // We need the container in the DOM for lottie to attach
-  document.body.appendChild(container);
-
-  // 2. Output Canvas (We compose White BG + SVG Image here)
+  // Output Canvas (We compose Background + Animation here, or the animation only for alpha formats)
   const canvas = document.createElement('canvas');
   canvas.width = w;
   canvas.height = h;
   const ctx = canvas.getContext('2d', { 
-    alpha: false, // Opaque output
+    alpha: transparent, // Opaque output unless the format keeps alpha
     willReadFrequently: true 
   });
   
-  if (!ctx) {
-    document.body.removeChild(container);
-    throw new Error("Could not create canvas context");
-  }
+  if (!ctx) throw new Error("Could not create canvas context");
 
-  // 3. Load Animation using SVG Renderer
-  // This is slower but supports ALL Lottie/Jitter features (masks, gaussian blur, etc.)
-  const anim: AnimationItem = lottie.loadAnimation({
-    container: container,
-    renderer: 'svg',
-    loop: false,
-    autoplay: false,
-    animationData: animationData,
-    rendererSettings: {
-      preserveAspectRatio: 'xMidYMid meet',
-      // We do NOT use progressiveLoad to ensure frames are fully ready
-    },
-  });
-
-  // Wait for initial load
-  await new Promise((resolve) => {
-    if (anim.isLoaded) resolve(true);
-    anim.addEventListener('DOMLoaded', resolve);
-  });
-  
-  // Extra buffer to ensure external assets are loaded
-  await new Promise(r => setTimeout(r, 800));
+  let renderer: FrameRenderer | null = null;
+  let backgroundPainter: BackgroundPainter | null = null;
+  let sink: FrameSink | null = null;
 
   try {
-    const fr = anim.frameRate || 30;
-    const durationSeconds = (anim.totalFrames / fr);
-    const totalOutputFrames = Math.ceil(durationSeconds * fps);
+    // Load the animation into the chosen render backend
+    onProgress({ phase: 'loading', message: 'Loading animation...', percent: 0 });
+    const choice = await createRenderer(options.renderer, animationData, { width: w, height: h, fit: sizing.fit, container });
+    renderer = choice.renderer;
+    signal?.throwIfAborted();
+    if (choice.reason) onProgress({ phase: 'loading', message: `Using the ${renderer.label} renderer (${choice.reason})`, percent: 2 });
+    const activeRenderer = renderer;
+
+    // In/out points, repeats and ping-pong all reduce to a time -> Lottie frame mapping
+    const timeline = createTimeline(options.range, animationData);
+    const outputFps = getOutputFps(format, fps, options.animated);
+    // A still is one frame at the chosen position; everything else covers the whole range
+    const stillSeconds = options.image.unit === 'seconds' ? options.image.at : options.image.at / (animationData.fr || 30);
+    const schedule = isStillFormat(format)
+      ? [createStillFrame(stillSeconds, timeline.durationSeconds, outputFps)]
+      : createFrameSchedule(timeline.durationSeconds, outputFps);
+    const totalOutputFrames = schedule.length;
     
-    if (totalOutputFrames <= 0) throw new Error("Invalid animation duration.");
-
-    onProgress(`Initializing High-Fidelity Encoder (${resolution} @ ${fps}fps)...`, 5);
-
-    // Setup Muxer
-    const muxer = new Muxer({
-      target: new ArrayBufferTarget(),
-      video: {
-        codec: 'avc', 
-        width: w,
-        height: h
-      },
-      fastStart: 'in-memory',
-      firstTimestampBehavior: 'offset', 
+    if (timeline.durationSeconds <= 0) throw new Error("Invalid animation duration.");
+
+    // Audio is laid out against the output timeline once; every pass muxes the same track
+    const { audio } = options;
+    let soundtrack: Soundtrack | undefined;
+    if (audio.file && supportsAudio(format)) {
+      onProgress({ phase: 'loading', message: `Preparing audio (${audio.file.name})...`, percent: 3 });
+      const start = (audio.marker ? getMarkerTime(options.range, animationData, audio.marker) : 0) + audio.offset;
+      soundtrack = await createSoundtrack(audio.file, audio, start, timeline.durationSeconds);
+      signal?.throwIfAborted();
+    }
+
+    // Frame blending / motion blur composite several samples per frame on a scratch canvas
+    const blending = options.timing.mode !== 'exact';
+    const scratch = blending ? document.createElement('canvas') : null;
+    const scratchCtx = scratch?.getContext('2d', { alpha: transparent }) ?? null;
+
+    // Every Lottie position to render, in output order. Frames with blending contribute
+    // several samples; the last one of each frame triggers the encode.
+    const work = schedule.flatMap((frame) => {
+      const samples = getFrameSamples(frame, timeline, options.timing);
+      return samples.map((sample, k) => ({ frame, sample, blended: samples.length > 1, last: k === samples.length - 1 }));
     });
 
-    // Configure Encoder (H.264)
-    const videoEncoder = new VideoEncoder({
-      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
-      error: (e) => {
-        console.error("VideoEncoder error:", e);
-        throw new Error(`Encoding failed: ${e.message}`);
+    // Composes one rendered sample over the background into `target`
+    const drawSample = async (target: CanvasRenderingContext2D, sample: FrameSample, image: CanvasImageSource, width: number, height: number) => {
+      // A. Paint Background (or clear it for alpha-preserving formats)
+      target.clearRect(0, 0, width, height);
+      if (backgroundPainter) {
+        await backgroundPainter.paint(target, sample.time);
       }
-    });
 
-    // Attempt High Profile (Best Quality) -> Fallback to Main
-    const highProfileConfig = {
-      codec: 'avc1.640033', // High Profile, Level 5.1
-      width: w,
-      height: h,
-      bitrate: resolution === Resolution.UHD ? 40_000_000 : 15_000_000,
-      framerate: fps,
+      // B. Draw the animation frame
+      target.drawImage(image, 0, 0, width, height);
+      releaseFrame(image);
     };
-    
-    const mainProfileConfig = {
-      codec: 'avc1.4d002a', // Main Profile, Level 4.2
-      width: w,
-      height: h,
-      bitrate: 10_000_000,
-      framerate: fps,
-    };
-
-    let selectedConfig = mainProfileConfig;
-    try {
-        const support = await VideoEncoder.isConfigSupported(highProfileConfig);
-        if (support.supported) selectedConfig = highProfileConfig;
-    } catch (e) {
-        console.warn("Config check failed, using default.", e);
-    }
 
-    videoEncoder.configure(selectedConfig);
-
-    onProgress(`Processing ${totalOutputFrames} frames (SVG Mode)...`, 10);
-
-    const frameIntervalMicroseconds = 1_000_000 / fps;
-    const serializer = new XMLSerializer();
-
-    for (let i = 0; i < totalOutputFrames; i++) {
-      
-      // 1. Advance Lottie Frame
-      const lottieFrame = (i / totalOutputFrames) * anim.totalFrames;
-      anim.goToAndStop(lottieFrame, true);
-      
-      // 2. Extract SVG Node
-      const svgElement = container.querySelector('svg');
-      if (!svgElement) throw new Error("SVG element not found during render");
-
-      // 3. Force correct dimensions and Namespace on the SVG to prevent rendering issues
-      svgElement.setAttribute('width', `${w}px`);
-      svgElement.setAttribute('height', `${h}px`);
-      
-      // 4. Serialize to XML String
-      let svgData = serializer.serializeToString(svgElement);
-      
-      // FIX: Ensure XML Namespace exists for Blob rendering
-      if (!svgData.includes('xmlns="http://www.w3.org/2000/svg"')) {
-        svgData = svgData.replace('<svg', '<svg xmlns="http://www.w3.org/2000/svg"');
+    // Renders every frame at the given output size and returns the finished file.
+    // Runs more than once when an animated image has to be shrunk to fit its size budget.
+    const renderPass = async (width: number, height: number, pass: number): Promise<Blob> => {
+      canvas.width = width;
+      canvas.height = height;
+      if (scratch) {
+        scratch.width = width;
+        scratch.height = height;
       }
 
-      // 5. Create Blob URL
-      const svgBlob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' });
-      const url = URL.createObjectURL(svgBlob);
-
-      // 6. Rasterize to Canvas
-      const img = await loadImage(url);
-      
-      // A. Fill White Background
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, w, h);
-      
-      // B. Draw SVG Image
-      ctx.drawImage(img, 0, 0, w, h);
-      
-      // Cleanup memory immediately
-      URL.revokeObjectURL(url);
-
-      // 7. Encode Frame
-      const timestamp = Math.round(i * frameIntervalMicroseconds);
-      const frame = new VideoFrame(canvas, { timestamp });
-      
-      const keyFrame = i % (fps * 2) === 0;
-      videoEncoder.encode(frame, { keyFrame });
-      frame.close(); 
-
-      // Update UI & Yield
-      if (i % 5 === 0 || i === totalOutputFrames - 1) {
-        const pct = 10 + Math.round((i / totalOutputFrames) * 85);
-        onProgress(`Processing frame ${i + 1}/${totalOutputFrames}`, pct);
-        // Small delay to allow UI updates and garbage collection
-        await new Promise(r => setTimeout(r, 0));
-      }
-    }
+      if (backgroundPainter) backgroundPainter.dispose();
+      backgroundPainter = transparent ? null : await createBackgroundPainter(background, ctx, width, height);
 
-    onProgress('Finalizing Video...', 98);
+      const passSink = await createFrameSink(format, canvas, {
+        width,
+        height,
+        fps: outputFps,
+        codec: resolveCodec(format, options.codec),
+        encoding: options.encoding,
+        animated: options.animated,
+        image: options.image,
+        soundtrack,
+        fileHandle: streamToDisk ? fileHandle : undefined,
+      });
+      sink = passSink;
 
-    await videoEncoder.flush();
-    muxer.finalize();
+      const passLabel = pass > 1 ? ` (attempt ${pass})` : '';
+      onProgress({
+        phase: 'encoding',
+        message: `Initializing High-Fidelity Encoder (${passSink.label}, ${width}x${height} @ ${outputFps}fps)${passLabel}...`,
+        percent: 5,
+        encoder: passSink.label,
+        width,
+        height,
+      });
 
-    const { buffer } = muxer.target;
-    const blob = new Blob([buffer], { type: 'video/mp4' });
-    
-    return URL.createObjectURL(blob);
+      onProgress({
+        phase: 'rendering',
+        message: `Processing ${totalOutputFrames} frames (${activeRenderer.label} renderer${blending ? `, ${options.timing.mode}` : ''}${streamToDisk && fileHandle ? ', streaming to disk' : ''})...`,
+        percent: 10,
+        frame: 0,
+        totalFrames: totalOutputFrames,
+      });
+
+      const started = performance.now();
+      let accumulated = 0;
+
+      // Rendering runs ahead of compositing/encoding by up to `concurrency` samples
+      await runOrderedPipeline({
+        count: work.length,
+        concurrency: activeRenderer.concurrency,
+        produce: (index) => {
+          signal?.throwIfAborted();
+          return activeRenderer.renderFrame(work[index].sample.lottieFrame, width, height);
+        },
+        discard: releaseFrame,
+        consume: async (index, image) => {
+          const { frame, sample, blended, last } = work[index];
+
+          // Honour Pause / Cancel between samples. The frame has left the pipeline,
+          // so it is released here if it never gets drawn.
+          try {
+            await pauser?.waitIfPaused(signal);
+            signal?.throwIfAborted();
+          } catch (err) {
+            releaseFrame(image);
+            throw err;
+          }
+
+          if (!blended || !scratch || !scratchCtx) {
+            await drawSample(ctx, sample, image, width, height);
+          } else {
+            // Running weighted average: each sample is laid over the mix so far with
+            // alpha = its weight / total weight, which leaves every sample at its own weight
+            if (accumulated === 0) ctx.clearRect(0, 0, width, height);
+            await drawSample(scratchCtx, sample, image, width, height);
+            accumulated += sample.weight;
+            ctx.globalAlpha = sample.weight / accumulated;
+            ctx.drawImage(scratch, 0, 0);
+            ctx.globalAlpha = 1;
+          }
+          if (!last) return;
+          accumulated = 0;
+
+          // Encode Frame (sinks apply encoder backpressure)
+          await passSink.addFrame(canvas, frame);
+
+          // Update UI & Yield
+          const i = frame.index;
+          if (i % 5 === 0 || i === totalOutputFrames - 1) {
+            const pct = 10 + Math.round((i / totalOutputFrames) * 85);
+            const throughput = (i + 1) / Math.max(0.001, (performance.now() - started) / 1000);
+            onProgress({
+              phase: 'rendering',
+              message: `Processing frame ${i + 1}/${totalOutputFrames} · ${throughput.toFixed(1)} fps${passLabel}`,
+              percent: pct,
+              frame: i + 1,
+              totalFrames: totalOutputFrames,
+            });
+            // Small delay to allow UI updates and garbage collection
+            await new Promise(r => setTimeout(r, 0));
+          }
+        },
+      });
+
+      signal?.throwIfAborted();
+      onProgress({ phase: 'finalizing', message: `Finalizing ${passSink.label}...`, percent: 98 });
+
+      const blob = await passSink.finalize();
+      sink = null;
+      return blob;
+    };
+
+    let blob = await renderPass(w, h, 1);
+
+    // Size targeting: shrink by the square root of the overshoot (bytes scale roughly with area)
+    // plus a safety margin, and re-render until the file fits the budget.
+    const { maxBytes } = options.animated;
+    if (isAnimatedImageFormat(format) && maxBytes) {
+      let scale = 1;
+      for (let pass = 2; blob.size > maxBytes; pass++) {
+        if (pass > MAX_SIZE_PASSES) {
+          throw new Error(`Could not fit the output under ${formatBytes(maxBytes)} (smallest attempt: ${formatBytes(blob.size)}). Try fewer colours, a lower frame rate or quality.`);
+        }
+        scale *= Math.sqrt(maxBytes / blob.size) * 0.95;
+        const nextW = Math.floor(w * scale);
+        const nextH = Math.floor(h * scale);
+        if (Math.min(nextW, nextH) < MIN_DOWNSCALED_EDGE) {
+          throw new Error(`Fitting under ${formatBytes(maxBytes)} would need an output smaller than ${MIN_DOWNSCALED_EDGE}px. Try fewer colours, a lower frame rate or quality.`);
+        }
+        onProgress({
+          phase: 'encoding',
+          message: `${formatBytes(blob.size)} is over the ${formatBytes(maxBytes)} budget, re-rendering at ${nextW}x${nextH}...`,
+          percent: 5,
+        });
+        blob = await renderPass(nextW, nextH, pass);
+      }
+    }
+
+    return blob;
 
   } catch (err) {
-    console.error("Conversion Logic Error:", err);
+    // Tear down the encoder/muxer so nothing keeps running after an abort or failure
+    if (sink) await sink.cancel().catch(() => {});
+    if (!isAbortError(err)) console.error("Conversion Logic Error:", err);
     throw err;
   } finally {
-    if (anim) anim.destroy();
-    if (document.body.contains(container)) {
-      document.body.removeChild(container);
-    }
+    if (backgroundPainter) backgroundPainter.dispose();
+    if (renderer) renderer.destroy();
   }
-};
\ No newline at end of file
+};
+
+// Blob URL variant used by the app, with plain (message, percent) progress
+export const renderAndConvert = async (
+  animationData: LottieFile,
+  options: ConvertOptions,
+  onProgress: (msg: string, percent: number) => void,
+  control: ConversionControl = {}
+): Promise<string> => {
+  const blob = await convertAnimation(animationData, options, ({ message, percent }) => onProgress(message, percent), control);
+  return URL.createObjectURL(blob);
+};
+
+// One output frame, `seconds` into the timeline, drawn by the export's own renderer,
+// sizing and background. Used to check the SVG preview against what gets encoded.
+// Opaque outputs come back as a maximum-quality JPEG so the background is painted in.
+export const renderFrame = async (
+  animationData: LottieFile,
+  options: ConvertOptions,
+  seconds: number,
+  control: ConversionControl = {}
+): Promise<string> => {
+  const format = isTransparentFormat(options.format) ? OutputFormat.STILL_PNG : OutputFormat.STILL_JPEG;
+  const blob = await convertAnimation(
+    animationData,
+    { ...options, format, image: { ...options.image, at: seconds, unit: 'seconds', quality: 1 }, streamToDisk: false },
+    () => {},
+    control
+  );
+  return URL.createObjectURL(blob);
+};
@@ -0,0 +1,57 @@
+import { OutputFormat } from '../types';
+import { getFileExtension } from './encoders';
+
+// Above this estimated size, rendering into memory risks crashing the tab,
+// so the UI recommends streaming straight to disk instead.
+export const STREAMING_THRESHOLD_BYTES = 1024 * 1024 * 1024; // 1 GiB
+
+// File System Access API (Chromium only, not yet part of TypeScript's DOM lib)
+declare global {
+  interface Window {
+    showSaveFilePicker?: (options?: {
+      suggestedName?: string;
+      types?: { description: string; accept: Record<string, string[]> }[];
+    }) => Promise<FileSystemFileHandle>;
+  }
+}
+
+const MIME_TYPES: Record<OutputFormat, string> = {
+  [OutputFormat.MP4]: 'video/mp4',
+  [OutputFormat.WEBM]: 'video/webm',
+  [OutputFormat.WEBM_ALPHA]: 'video/webm',
+  [OutputFormat.PNG_SEQUENCE]: 'application/zip',
+  [OutputFormat.GIF]: 'image/gif',
+  [OutputFormat.WEBP]: 'image/webp',
+  [OutputFormat.STILL_PNG]: 'image/png',
+  [OutputFormat.STILL_JPEG]: 'image/jpeg',
+  [OutputFormat.STILL_WEBP]: 'image/webp',
+  [OutputFormat.SPRITE_SHEET]: 'application/zip',
+};
+
+export const getMimeType = (format: OutputFormat) => MIME_TYPES[format];
+
+export const isDiskStreamingSupported = () =>
+  typeof window !== 'undefined' && typeof window.showSaveFilePicker === 'function';
+
+// Must be called from a user gesture (e.g. the Convert button click).
+// Returns null when the user dismisses the dialog.
+export const pickSaveFile = async (suggestedName: string, format: OutputFormat): Promise<FileSystemFileHandle | null> => {
+  if (!window.showSaveFilePicker) return null;
+
+  const extension = `.${getFileExtension(format)}`;
+  try {
+    return await window.showSaveFilePicker({
+      suggestedName,
+      types: [{ description: extension.slice(1).toUpperCase(), accept: { [MIME_TYPES[format]]: [extension] } }],
+    });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return null;
+    throw err;
+  }
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(0)} MB`;
+  return `${(bytes / 1024).toFixed(0)} KB`;
+};
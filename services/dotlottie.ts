@@ -0,0 +1,97 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { LoadedFile, LottieFile } from '../types';
+import { getDirectory, inlineImageAssets, isImagePath } from './assets';
+
+// dotLottie (.lottie) is a ZIP bundle: manifest.json, one or more animations and
+// their images, optionally themes. v1 uses animations/ + images/, v2 uses a/ + i/ + t/.
+
+export interface DotLottieThemeRule {
+  id: string;      // Slot id
+  type?: string;   // Color, Scalar, Vector, Position, Text, Image...
+  value?: unknown;
+  keyframes?: { frame: number; value: unknown; hold?: boolean }[];
+}
+
+export interface DotLottieTheme {
+  id: string;
+  rules: DotLottieThemeRule[];
+}
+
+export interface DotLottieBundle {
+  animations: { id: string; data: LottieFile; missingImages: string[] }[];
+  themes: DotLottieTheme[];
+}
+
+const ANIMATION_PATH = /^(a|animations)\/([^/]+)\.json$/;
+const THEME_PATH = /^(t|themes)\/([^/]+)\.json$/;
+
+export const isDotLottieFile = (file: File) => file.name.toLowerCase().endsWith('.lottie');
+
+export const readDotLottie = (bytes: Uint8Array): DotLottieBundle => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(bytes);
+  } catch {
+    throw new Error("Not a valid .lottie archive");
+  }
+
+  const manifest = entries['manifest.json'] ? JSON.parse(strFromU8(entries['manifest.json'])) : {};
+  const images = new Map(Object.entries(entries).filter(([path]) => isImagePath(path)));
+
+  const animations = Object.keys(entries)
+    .filter((path) => ANIMATION_PATH.test(path))
+    .map((path) => {
+      const id = path.match(ANIMATION_PATH)![2];
+      const { data, missing } = inlineImageAssets(JSON.parse(strFromU8(entries[path])), images, getDirectory(path));
+      return { id, data, missingImages: missing };
+    });
+  if (animations.length === 0) throw new Error("The .lottie archive contains no animations");
+
+  // Manifest order first (the first one is the default animation)
+  const order: string[] = (manifest.animations ?? []).map((a: { id: string }) => a.id);
+  const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+  animations.sort((a, b) => rank(a.id) - rank(b.id));
+
+  const themes = Object.keys(entries)
+    .filter((path) => THEME_PATH.test(path))
+    .map((path) => ({ id: path.match(THEME_PATH)![2], rules: JSON.parse(strFromU8(entries[path])).rules ?? [] }));
+
+  return { animations, themes };
+};
+
+// Linear easing, used when a theme keyframe doesn't define its own
+const LINEAR_IN = { x: [1], y: [1] };
+const LINEAR_OUT = { x: [0], y: [0] };
+
+const toSlotValue = (value: unknown) => (Array.isArray(value) || typeof value === 'number' ? value : null);
+
+// Writes the theme's values into the animation's slots. Only numeric rules (colors,
+// scalars, vectors, positions) are applied; rules for slots the animation lacks are ignored.
+export const applyTheme = (animation: LottieFile, theme: DotLottieTheme): LottieFile => {
+  if (!animation.slots) return animation;
+  const slots = { ...animation.slots };
+
+  for (const rule of theme.rules) {
+    if (!slots[rule.id]) continue;
+    if (rule.keyframes?.length) {
+      const k = rule.keyframes.map((kf) => ({
+        t: kf.frame,
+        s: [kf.value].flat(),
+        ...(kf.hold ? { h: 1 } : { i: LINEAR_IN, o: LINEAR_OUT }),
+      }));
+      slots[rule.id] = { p: { a: 1, k } };
+    } else if (toSlotValue(rule.value) !== null) {
+      slots[rule.id] = { p: { a: 0, k: rule.value } };
+    }
+  }
+  return { ...animation, slots };
+};
+
+// One LoadedFile per animation, named after the bundle (plus the animation id if there are several)
+export const getBundleFiles = (bundle: DotLottieBundle, bundleName: string, theme?: DotLottieTheme): LoadedFile[] => {
+  const baseName = bundleName.replace(/\.lottie$/i, '');
+  return bundle.animations.map(({ id, data }) => ({
+    data: theme ? applyTheme(data, theme) : data,
+    name: bundle.animations.length > 1 ? `${baseName}_${id}.json` : `${baseName}.json`,
+  }));
+};
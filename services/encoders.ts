@@ -0,0 +1,597 @@
+import { Muxer, ArrayBufferTarget, FileSystemWritableFileStreamTarget } from 'mp4-muxer';
+import { Output, WebMOutputFormat, BufferTarget, StreamTarget, CanvasSource, AudioBufferSource, Quality } from 'mediabunny';
+import { strToU8, zipSync, Zippable, Zip, ZipPassThrough } from 'fflate';
+import { GIFEncoder } from 'gifenc';
+import { AnimatedImageOptions, Codec, EncodingOptions, ImageExportOptions, OutputFormat } from '../types';
+import { CODEC_LABELS, findSupportedConfig, getCodecCandidates } from './codecs';
+import { getGifRepeat, indexFrame } from './gif';
+import { getFrameDelay, MICROSECONDS_PER_SECOND, OutputFrame } from './timing';
+import { muxAnimatedWebp } from './webp';
+import { createAtlasMetadata, getAtlasError, getAtlasLayout, getFramePosition } from './spritesheet';
+import { AUDIO_CODEC_LABELS, encodeSoundtrack, findAudioEncoderConfig, Soundtrack } from './audio';
+
+export interface SinkOptions {
+  width: number;
+  height: number;
+  fps: number;
+  codec: Codec;
+  encoding: EncodingOptions;
+  animated: AnimatedImageOptions;
+  image: ImageExportOptions;
+  soundtrack?: Soundtrack; // Muxed next to the video by the formats that carry audio
+  // When set, output is streamed into this file instead of being buffered in memory
+  fileHandle?: FileSystemFileHandle;
+}
+
+// A FrameSink receives every composed output frame and produces the final file.
+export interface FrameSink {
+  label: string;
+  addFrame: (canvas: HTMLCanvasElement, frame: OutputFrame) => Promise<void>;
+  finalize: () => Promise<Blob>;
+  // Releases the encoder and drops any buffered output (used on abort/failure)
+  cancel: () => Promise<void>;
+}
+
+const FILE_EXTENSIONS: Record<OutputFormat, string> = {
+  [OutputFormat.MP4]: 'mp4',
+  [OutputFormat.WEBM]: 'webm',
+  [OutputFormat.WEBM_ALPHA]: 'webm',
+  [OutputFormat.PNG_SEQUENCE]: 'zip',
+  [OutputFormat.GIF]: 'gif',
+  [OutputFormat.WEBP]: 'webp',
+  [OutputFormat.STILL_PNG]: 'png',
+  [OutputFormat.STILL_JPEG]: 'jpg',
+  [OutputFormat.STILL_WEBP]: 'webp',
+  [OutputFormat.SPRITE_SHEET]: 'zip',
+};
+
+export const getFileExtension = (format: OutputFormat) => FILE_EXTENSIONS[format];
+
+// Formats that keep the alpha channel, i.e. must not get a baked-in background
+export const isTransparentFormat = (format: OutputFormat) =>
+  format === OutputFormat.WEBM_ALPHA ||
+  format === OutputFormat.PNG_SEQUENCE ||
+  format === OutputFormat.STILL_PNG ||
+  format === OutputFormat.STILL_WEBP ||
+  format === OutputFormat.SPRITE_SHEET;
+
+// Formats that need the WebCodecs VideoEncoder
+export const requiresWebCodecs = (format: OutputFormat) =>
+  format !== OutputFormat.PNG_SEQUENCE && !isAnimatedImageFormat(format) && !isImageExportFormat(format);
+
+// Containers that can carry the soundtrack
+export const supportsAudio = (format: OutputFormat) =>
+  format === OutputFormat.MP4 || format === OutputFormat.WEBM || format === OutputFormat.WEBM_ALPHA;
+
+// GIF / animated WebP: encoded on the CPU from canvas pixels, with their own frame rate and size budget
+export const isAnimatedImageFormat = (format: OutputFormat) =>
+  format === OutputFormat.GIF || format === OutputFormat.WEBP;
+
+// A single still frame
+export const isStillFormat = (format: OutputFormat) =>
+  format === OutputFormat.STILL_PNG || format === OutputFormat.STILL_JPEG || format === OutputFormat.STILL_WEBP;
+
+// Stills and sprite sheets: picture exports rather than playable animations
+export const isImageExportFormat = (format: OutputFormat) =>
+  isStillFormat(format) || format === OutputFormat.SPRITE_SHEET;
+
+// GIF delays are in 1/100 s and browsers slow down anything shorter than 2/100 s
+const MAX_GIF_FPS = 50;
+
+export const DEFAULT_ANIMATED: AnimatedImageOptions = {
+  fps: 15,
+  loopCount: 0,
+  maxColors: 256,
+  dither: true,
+  quality: 0.8,
+  maxBytes: null,
+};
+
+export const DEFAULT_IMAGE_EXPORT: ImageExportOptions = {
+  at: 0,
+  unit: 'seconds',
+  quality: 0.9,
+  columns: null,
+};
+
+// Animated images and sprite sheets drop frames from the render rate down to their own (lower) rate
+export const getOutputFps = (format: OutputFormat, fps: number, animated: AnimatedImageOptions) => {
+  if (!isAnimatedImageFormat(format) && format !== OutputFormat.SPRITE_SHEET) return fps;
+  const limit = format === OutputFormat.GIF ? Math.min(animated.fps, MAX_GIF_FPS) : animated.fps;
+  return Math.max(1, Math.min(fps, limit));
+};
+
+export const DEFAULT_ENCODING: EncodingOptions = {
+  bitrateMode: 'variable',
+  bitrate: null,
+  quantizer: 23,
+  keyframeInterval: 2,
+  latencyMode: 'quality',
+  hardwareAcceleration: 'no-preference',
+};
+
+// Highest (worst) quantizer each codec accepts in WebCodecs' quantizer mode
+export const QUANTIZER_MAX: Record<Codec, number> = {
+  [Codec.H264]: 51,
+  [Codec.HEVC]: 51,
+  [Codec.VP9]: 63,
+  [Codec.AV1]: 63,
+};
+
+// 40 Mbps for anything above ~1440p, 15 Mbps otherwise
+export const getAutoBitrate = (width: number, height: number) =>
+  width * height > 2560 * 1440 ? 40_000_000 : 15_000_000;
+
+const getBitrate = (encoding: EncodingOptions, width: number, height: number) =>
+  encoding.bitrate ?? getAutoBitrate(width, height);
+
+const clampQuantizer = (codec: Codec, quantizer: number) =>
+  Math.min(QUANTIZER_MAX[codec], Math.max(0, Math.round(quantizer)));
+
+// Rough output size, used to warn before jobs that would not fit in memory
+// Quantizer mode has no target bitrate, so the automatic bitrate stands in as a ballpark.
+export const estimateOutputBytes = (
+  format: OutputFormat,
+  encoding: EncodingOptions,
+  animated: AnimatedImageOptions,
+  width: number,
+  height: number,
+  fps: number,
+  durationSeconds: number
+) => {
+  if (isAnimatedImageFormat(format)) {
+    // LZW on flat graphics lands around 0.1 bytes per pixel (more with dithering noise);
+    // lossy WebP scales with the quality setting. Size targeting caps the result.
+    const bytesPerPixel = format === OutputFormat.GIF
+      ? (animated.dither ? 0.18 : 0.1)
+      : 0.02 + 0.08 * animated.quality;
+    const frames = getOutputFps(format, fps, animated) * durationSeconds;
+    const estimate = Math.round(width * height * bytesPerPixel * frames);
+    return animated.maxBytes ? Math.min(estimate, animated.maxBytes) : estimate;
+  }
+  if (format === OutputFormat.PNG_SEQUENCE) {
+    // Flat-colour motion graphics typically compress to ~1.5 bytes per RGBA pixel
+    return Math.round(width * height * 1.5 * fps * durationSeconds);
+  }
+  if (format === OutputFormat.SPRITE_SHEET) {
+    return Math.round(width * height * 1.5 * getOutputFps(format, fps, animated) * durationSeconds);
+  }
+  if (isStillFormat(format)) {
+    return Math.round(width * height * (format === OutputFormat.STILL_PNG ? 1.5 : 0.3));
+  }
+  const bitrate = encoding.bitrateMode === 'quantizer' ? getAutoBitrate(width, height) : getBitrate(encoding, width, height);
+  return Math.round((bitrate / 8) * durationSeconds);
+};
+
+// --- MP4 (H.264 / HEVC / VP9 / AV1, opaque) ---
+
+// Frames waiting inside the VideoEncoder hold GPU/CPU memory, so the producer
+// is held back once this many are queued
+const MAX_ENCODE_QUEUE = 8;
+
+const waitForEncoderQueue = async (encoder: VideoEncoder) => {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise((resolve) => {
+      if ('ondequeue' in encoder) {
+        encoder.addEventListener('dequeue', resolve, { once: true });
+      } else {
+        setTimeout(resolve, 5); // Older browsers have no dequeue event
+      }
+    });
+  }
+};
+
+const createMp4Sink = async ({ width, height, fps, codec, encoding, soundtrack, fileHandle }: SinkOptions): Promise<FrameSink> => {
+  const useQuantizer = encoding.bitrateMode === 'quantizer';
+
+  // Pick the best profile/level the browser supports before touching the output file
+  const selectedConfig = await findSupportedConfig(codec, {
+    width,
+    height,
+    framerate: fps,
+    bitrateMode: encoding.bitrateMode,
+    bitrate: useQuantizer ? undefined : getBitrate(encoding, width, height),
+    latencyMode: encoding.latencyMode,
+    hardwareAcceleration: encoding.hardwareAcceleration,
+  });
+  if (!selectedConfig) {
+    throw new Error(`${CODEC_LABELS[codec]} encoding at ${width}x${height} @ ${fps}fps is not supported by this browser.`);
+  }
+  const audioConfig = soundtrack ? await findAudioEncoderConfig(soundtrack) : null;
+  if (soundtrack && !audioConfig) throw new Error("This browser can't encode AAC or Opus audio.");
+
+  // Streaming to disk needs a fragmented MP4: the moov box can't be moved to the front afterwards
+  const stream = fileHandle ? await fileHandle.createWritable() : null;
+  const memoryTarget = stream ? null : new ArrayBufferTarget();
+
+  // Nothing is returned to cancel if the setup below fails, so the file is released here
+  let videoEncoder: VideoEncoder | null = null;
+  try {
+    const muxer = new Muxer({
+      target: stream ? new FileSystemWritableFileStreamTarget(stream) : memoryTarget!,
+      video: {
+        codec,
+        width,
+        height
+      },
+      audio: audioConfig ? {
+        codec: audioConfig.codec,
+        numberOfChannels: soundtrack!.buffer.numberOfChannels,
+        sampleRate: soundtrack!.buffer.sampleRate,
+      } : undefined,
+      fastStart: stream ? 'fragmented' : 'in-memory',
+      firstTimestampBehavior: 'offset',
+    });
+
+    videoEncoder = new VideoEncoder({
+      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      error: (e) => {
+        console.error("VideoEncoder error:", e);
+        throw new Error(`Encoding failed: ${e.message}`);
+      }
+    });
+
+    videoEncoder.configure(selectedConfig);
+
+    // The soundtrack is short next to the frames, so it is encoded up front; the
+    // muxer interleaves it with the video as frames arrive
+    if (audioConfig) {
+      await encodeSoundtrack(soundtrack!.buffer, audioConfig.config, (chunk, meta) => muxer.addAudioChunk(chunk, meta));
+    }
+
+    const gopFrames = Math.max(1, Math.round(fps * encoding.keyframeInterval));
+    // Per-frame options are keyed by codec id ('avc', 'hevc', 'vp9', 'av1')
+    const quantizerOptions = useQuantizer ? { [codec]: { quantizer: clampQuantizer(codec, encoding.quantizer) } } : {};
+
+    return {
+      label: `${CODEC_LABELS[codec]} MP4${audioConfig ? ` + ${AUDIO_CODEC_LABELS[audioConfig.codec]}` : ''}`,
+      addFrame: async (canvas, { index, timestamp, duration }) => {
+        await waitForEncoderQueue(videoEncoder);
+        const frame = new VideoFrame(canvas, { timestamp, duration });
+
+        const keyFrame = index % gopFrames === 0;
+        videoEncoder.encode(frame, { keyFrame, ...quantizerOptions });
+        frame.close();
+      },
+      finalize: async () => {
+        await videoEncoder.flush();
+        muxer.finalize();
+
+        if (stream && fileHandle) {
+          await stream.close();
+          return fileHandle.getFile();
+        }
+        return new Blob([memoryTarget!.buffer], { type: 'video/mp4' });
+      },
+      cancel: async () => {
+        if (videoEncoder.state !== 'closed') videoEncoder.close();
+        if (stream) await stream.abort();
+      },
+    };
+  } catch (err) {
+    if (videoEncoder && videoEncoder.state !== 'closed') videoEncoder.close();
+    if (stream) await stream.abort().catch(() => {});
+    throw err;
+  }
+};
+
+// --- WebM (VP9 / AV1, optionally with alpha) ---
+// With alpha, mediabunny encodes the alpha plane separately and writes it as Matroska
+// BlockAdditions, which is how WebM stores VP9 transparency.
+
+const createWebmSink = async (
+  canvas: HTMLCanvasElement,
+  { width, height, fps, codec, encoding, soundtrack, fileHandle }: SinkOptions,
+  alpha: boolean
+): Promise<FrameSink> => {
+  const webmCodec = codec === Codec.AV1 && !alpha ? Codec.AV1 : Codec.VP9;
+  const memoryTarget = fileHandle ? null : new BufferTarget();
+  const stream = fileHandle ? await fileHandle.createWritable() : null;
+  const output = new Output({
+    format: new WebMOutputFormat(),
+    target: stream ? new StreamTarget(stream, { chunked: true }) : memoryTarget!,
+  });
+
+  // Nothing is returned to cancel if the setup below fails, so the file is released here
+  try {
+    const source = new CanvasSource(canvas, {
+      codec: webmCodec,
+      fullCodecString: getCodecCandidates(webmCodec, width, height, fps)[0],
+      quality: encoding.bitrateMode === 'quantizer'
+        ? new Quality({ quantizer: clampQuantizer(webmCodec, encoding.quantizer) })
+        : new Quality({ bitrate: getBitrate(encoding, width, height), bitrateMode: encoding.bitrateMode }),
+      keyFrameInterval: encoding.keyframeInterval,
+      latencyMode: encoding.latencyMode,
+      hardwareAcceleration: encoding.hardwareAcceleration,
+      alpha: alpha ? 'keep' : 'discard',
+    });
+
+    output.addVideoTrack(source, { frameRate: fps });
+
+    // WebM only carries Opus (or Vorbis), whatever codec was picked for MP4
+    const audioSource = soundtrack ? new AudioBufferSource({ codec: 'opus', quality: new Quality({ bitrate: soundtrack.bitrate }) }) : null;
+    if (audioSource) output.addAudioTrack(audioSource);
+
+    await output.start();
+    if (audioSource) await audioSource.add(soundtrack!.buffer);
+
+    return {
+      label: `${CODEC_LABELS[webmCodec]} WebM${alpha ? ' (Alpha)' : ''}${audioSource ? ' + Opus' : ''}`,
+      addFrame: (_canvas, { timestamp, duration }) =>
+        source.add(timestamp / MICROSECONDS_PER_SECOND, duration / MICROSECONDS_PER_SECOND),
+      finalize: async () => {
+        await output.finalize();
+
+        // The stream target closes the file itself on finalize
+        if (fileHandle) return fileHandle.getFile();
+
+        const { buffer } = memoryTarget!;
+        if (!buffer) throw new Error("WebM muxer produced no data");
+        return new Blob([buffer], { type: 'video/webm' });
+      },
+      cancel: async () => {
+        if (output.state !== 'canceled' && output.state !== 'finalized') await output.cancel();
+      },
+    };
+  } catch (err) {
+    // Once started, the output owns the stream
+    if (output.state === 'pending') await stream?.abort().catch(() => {});
+    else await output.cancel().catch(() => {});
+    throw err;
+  }
+};
+
+// --- PNG sequence in a ZIP (fallback when VP9 alpha is unavailable) ---
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => blob ? resolve(blob) : reject(new Error("Could not encode PNG frame")),
+      'image/png'
+    );
+  });
+};
+
+// Streams each PNG into the ZIP on disk as soon as it is encoded
+const createStreamingPngSequenceSink = async (fileHandle: FileSystemFileHandle): Promise<FrameSink> => {
+  const stream = await fileHandle.createWritable();
+  let pendingWrites: Promise<void> = Promise.resolve();
+  let zipError: Error | null = null;
+
+  const zip = new Zip((err, chunk) => {
+    if (err) {
+      zipError = err;
+      return;
+    }
+    pendingWrites = pendingWrites.then(() => stream.write(chunk));
+  });
+
+  return {
+    label: 'PNG Sequence',
+    addFrame: async (canvas, { index }) => {
+      const png = await canvasToPng(canvas);
+      const entry = new ZipPassThrough(`frame_${String(index).padStart(5, '0')}.png`);
+      zip.add(entry);
+      entry.push(new Uint8Array(await png.arrayBuffer()), true);
+      // Keep memory flat by letting the disk catch up before the next frame
+      await pendingWrites;
+    },
+    finalize: async () => {
+      zip.end();
+      await pendingWrites;
+      if (zipError) throw zipError;
+      await stream.close();
+      return fileHandle.getFile();
+    },
+    cancel: async () => {
+      zip.terminate();
+      await stream.abort();
+    },
+  };
+};
+
+const createPngSequenceSink = async ({ fileHandle }: SinkOptions): Promise<FrameSink> => {
+  if (fileHandle) return createStreamingPngSequenceSink(fileHandle);
+
+  const files: Zippable = {};
+
+  return {
+    label: 'PNG Sequence',
+    addFrame: async (canvas, { index }) => {
+      const png = await canvasToPng(canvas);
+      const name = `frame_${String(index).padStart(5, '0')}.png`;
+      files[name] = new Uint8Array(await png.arrayBuffer());
+    },
+    finalize: async () => {
+      // PNG data is already deflated, so store without recompressing
+      const zipped = zipSync(files, { level: 0 });
+      return new Blob([zipped], { type: 'application/zip' });
+    },
+    cancel: async () => {
+      for (const name of Object.keys(files)) delete files[name];
+    },
+  };
+};
+
+// --- Animated GIF / WebP ---
+// Both are assembled in memory (they are small by design) and written out once at the end.
+
+const saveToFile = async (blob: Blob, fileHandle?: FileSystemFileHandle): Promise<Blob> => {
+  if (!fileHandle) return blob;
+  const stream = await fileHandle.createWritable();
+  await stream.write(blob);
+  await stream.close();
+  return fileHandle.getFile();
+};
+
+const createGifSink = async (
+  canvas: HTMLCanvasElement,
+  { width, height, animated, fileHandle }: SinkOptions
+): Promise<FrameSink> => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not read canvas pixels for GIF encoding");
+
+  const gif = GIFEncoder();
+  const repeat = getGifRepeat(animated.loopCount);
+
+  return {
+    label: `GIF (${animated.maxColors} colours${animated.dither ? ', dithered' : ''})`,
+    addFrame: async (_canvas, frame) => {
+      const { data } = ctx.getImageData(0, 0, width, height);
+      const { palette, index: pixels } = indexFrame(data, width, height, animated.maxColors, animated.dither);
+      // gifenc takes milliseconds and stores centiseconds
+      const delay = getFrameDelay(frame, 100) * 10;
+      gif.writeFrame(pixels, width, height, { palette, delay, repeat });
+    },
+    finalize: async () => {
+      gif.finish();
+      return saveToFile(new Blob([gif.bytes()], { type: 'image/gif' }), fileHandle);
+    },
+    cancel: async () => {
+      gif.reset();
+    },
+  };
+};
+
+const canvasToWebp = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => blob ? resolve(blob) : reject(new Error("Could not encode WebP frame")),
+      'image/webp',
+      quality
+    );
+  });
+};
+
+const createWebpSink = async ({ width, height, animated, fileHandle }: SinkOptions): Promise<FrameSink> => {
+  const frames: { data: Uint8Array; duration: number }[] = [];
+
+  return {
+    label: 'Animated WebP',
+    addFrame: async (canvas, frame) => {
+      const still = await canvasToWebp(canvas, animated.quality);
+      if (still.type !== 'image/webp') {
+        throw new Error("This browser cannot encode WebP images. Please use Chrome, Edge or Firefox.");
+      }
+      frames.push({ data: new Uint8Array(await still.arrayBuffer()), duration: getFrameDelay(frame, 1000) });
+    },
+    finalize: async () => {
+      const webp = muxAnimatedWebp(frames, width, height, animated.loopCount);
+      return saveToFile(new Blob([webp], { type: 'image/webp' }), fileHandle);
+    },
+    cancel: async () => {
+      frames.length = 0;
+    },
+  };
+};
+
+// --- Still frame / sprite sheet ---
+
+const STILL_MIME_TYPES: Partial<Record<OutputFormat, string>> = {
+  [OutputFormat.STILL_PNG]: 'image/png',
+  [OutputFormat.STILL_JPEG]: 'image/jpeg',
+  [OutputFormat.STILL_WEBP]: 'image/webp',
+};
+
+const canvasToImage = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => blob ? resolve(blob) : reject(new Error("Could not encode the image")),
+      type,
+      quality
+    );
+  });
+};
+
+const createStillSink = async (format: OutputFormat, { image, fileHandle }: SinkOptions): Promise<FrameSink> => {
+  const type = STILL_MIME_TYPES[format]!;
+  let still: Blob | null = null;
+
+  return {
+    label: `Still ${getFileExtension(format).toUpperCase()}`,
+    addFrame: async (canvas) => {
+      still = await canvasToImage(canvas, type, image.quality);
+      // toBlob silently falls back to PNG for types the browser can't encode
+      if (still.type !== type) throw new Error(`This browser cannot encode ${type} images.`);
+    },
+    finalize: async () => {
+      if (!still) throw new Error("No frame was rendered");
+      return saveToFile(still, fileHandle);
+    },
+    cancel: async () => {
+      still = null;
+    },
+  };
+};
+
+// Frames are kept as bitmaps until the end, when the grid size is known
+const createSpriteSheetSink = async ({ width, height, fps, image, fileHandle }: SinkOptions): Promise<FrameSink> => {
+  const frames: { bitmap: ImageBitmap; duration: number }[] = [];
+  const release = () => {
+    frames.forEach(({ bitmap }) => bitmap.close());
+    frames.length = 0;
+  };
+
+  return {
+    label: 'Sprite Sheet',
+    addFrame: async (canvas, frame) => {
+      frames.push({ bitmap: await createImageBitmap(canvas), duration: getFrameDelay(frame, 1000) });
+    },
+    finalize: async () => {
+      const layout = getAtlasLayout(frames.length, width, height, image.columns);
+      const error = getAtlasError(layout);
+      if (error) throw new Error(error);
+
+      const atlas = document.createElement('canvas');
+      atlas.width = layout.width;
+      atlas.height = layout.height;
+      const ctx = atlas.getContext('2d');
+      if (!ctx) throw new Error("Could not create the sprite sheet canvas");
+      frames.forEach(({ bitmap }, index) => {
+        const { x, y } = getFramePosition(index, layout, width, height);
+        ctx.drawImage(bitmap, x, y);
+      });
+
+      const png = new Uint8Array(await (await canvasToPng(atlas)).arrayBuffer());
+      const metadata = createAtlasMetadata(frames.map((f) => f.duration), layout, width, height, 'sheet.png', fps);
+      release();
+
+      const zipped = zipSync({
+        'sheet.png': [png, { level: 0 }],
+        'sheet.json': strToU8(JSON.stringify(metadata, null, 2)),
+      });
+      return saveToFile(new Blob([zipped], { type: 'application/zip' }), fileHandle);
+    },
+    cancel: async () => {
+      release();
+    },
+  };
+};
+
+export const createFrameSink = (
+  format: OutputFormat,
+  canvas: HTMLCanvasElement,
+  options: SinkOptions
+): Promise<FrameSink> => {
+  switch (format) {
+    case OutputFormat.WEBM:
+      return createWebmSink(canvas, options, false);
+    case OutputFormat.WEBM_ALPHA:
+      return createWebmSink(canvas, options, true);
+    case OutputFormat.PNG_SEQUENCE:
+      return createPngSequenceSink(options);
+    case OutputFormat.GIF:
+      return createGifSink(canvas, options);
+    case OutputFormat.WEBP:
+      return createWebpSink(options);
+    case OutputFormat.STILL_PNG:
+    case OutputFormat.STILL_JPEG:
+    case OutputFormat.STILL_WEBP:
+      return createStillSink(format, options);
+    case OutputFormat.SPRITE_SHEET:
+      return createSpriteSheetSink(options);
+    case OutputFormat.MP4:
+    default:
+      return createMp4Sink(options);
+  }
+};
@@ -0,0 +1,62 @@
+import { LottieFile } from '../types';
+
+// Lottie features that matter when choosing a renderer
+export interface LottieFeatures {
+  effects: boolean;      // Layer effects (blur, glow, ...): SVG renderer only
+  threeD: boolean;       // 3D layers: SVG renderer only
+  mergePaths: boolean;   // Not supported by lottie-web's canvas renderer
+  lumaMattes: boolean;   // Need a DOM canvas, so not available in a worker
+  images: boolean;       // Image assets are decoded with <img>, so not in a worker
+  text: boolean;         // Text layers need document fonts, so not in a worker
+  expressions: boolean;
+  effectTypes: number[];  // Distinct effect `ty` codes in use
+}
+
+// Layer types, see the Lottie schema
+const LAYER_TEXT = 5;
+const LAYER_IMAGE = 2;
+
+// Walks every object in the animation (layers, precomps, shapes) looking for feature markers
+const scan = (node: any, features: LottieFeatures) => {
+  if (Array.isArray(node)) {
+    for (const child of node) scan(child, features);
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  if (Array.isArray(node.ef) && node.ef.length > 0) {
+    features.effects = true;
+    for (const effect of node.ef) {
+      if (typeof effect?.ty === 'number' && !features.effectTypes.includes(effect.ty)) features.effectTypes.push(effect.ty);
+    }
+  }
+  if (node.ddd === 1) features.threeD = true;
+  if (node.ty === 'mm') features.mergePaths = true;
+  if (node.tt === 3 || node.tt === 4) features.lumaMattes = true;
+  if (node.ty === LAYER_TEXT && node.t) features.text = true;
+  if (node.ty === LAYER_IMAGE && node.refId) features.images = true;
+  // Animated properties carry their expression source in `x`
+  if (typeof node.x === 'string' && node.x.length > 0) features.expressions = true;
+
+  for (const key of Object.keys(node)) {
+    const value = node[key];
+    if (value && typeof value === 'object') scan(value, features);
+  }
+};
+
+export const detectFeatures = (animation: LottieFile): LottieFeatures => {
+  const features: LottieFeatures = {
+    effects: false,
+    threeD: false,
+    mergePaths: false,
+    lumaMattes: false,
+    images: false,
+    text: false,
+    expressions: false,
+    effectTypes: [],
+  };
+  scan(animation.layers, features);
+  scan(animation.assets, features);
+  if (animation.ddd === 1) features.threeD = true;
+  return features;
+};
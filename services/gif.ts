@@ -0,0 +1,72 @@
+import { applyPalette, nearestColorIndex, quantize, Palette } from 'gifenc';
+
+export interface IndexedFrame {
+  palette: Palette;
+  index: Uint8Array;
+}
+
+// Floyd-Steinberg error diffusion onto a fixed palette.
+// Nearest-colour lookups are cached on a 15-bit (5 bits per channel) key.
+const ditherToPalette = (rgba: Uint8ClampedArray, width: number, height: number, palette: Palette) => {
+  const index = new Uint8Array(width * height);
+  const cache = new Int16Array(1 << 15).fill(-1);
+  const rgb = new Float32Array(width * height * 3);
+  for (let p = 0; p < width * height; p++) {
+    rgb[p * 3] = rgba[p * 4];
+    rgb[p * 3 + 1] = rgba[p * 4 + 1];
+    rgb[p * 3 + 2] = rgba[p * 4 + 2];
+  }
+
+  const spread = (p: number, er: number, eg: number, eb: number, weight: number) => {
+    rgb[p * 3] += er * weight;
+    rgb[p * 3 + 1] += eg * weight;
+    rgb[p * 3 + 2] += eb * weight;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const r = Math.min(255, Math.max(0, rgb[p * 3]));
+      const g = Math.min(255, Math.max(0, rgb[p * 3 + 1]));
+      const b = Math.min(255, Math.max(0, rgb[p * 3 + 2]));
+
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+      let colorIndex = cache[key];
+      if (colorIndex < 0) {
+        colorIndex = nearestColorIndex(palette, [r, g, b]);
+        cache[key] = colorIndex;
+      }
+      index[p] = colorIndex;
+
+      const [pr, pg, pb] = palette[colorIndex];
+      const er = r - pr, eg = g - pg, eb = b - pb;
+      if (x + 1 < width) spread(p + 1, er, eg, eb, 7 / 16);
+      if (y + 1 < height) {
+        if (x > 0) spread(p + width - 1, er, eg, eb, 3 / 16);
+        spread(p + width, er, eg, eb, 5 / 16);
+        if (x + 1 < width) spread(p + width + 1, er, eg, eb, 1 / 16);
+      }
+    }
+  }
+  return index;
+};
+
+// Builds a per-frame palette and maps the frame's pixels onto it
+export const indexFrame = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  maxColors: number,
+  dither: boolean
+): IndexedFrame => {
+  const palette = quantize(rgba, Math.min(256, Math.max(2, Math.round(maxColors))));
+  const index = dither ? ditherToPalette(rgba, width, height, palette) : applyPalette(rgba, palette);
+  return { palette, index };
+};
+
+// GIF's NETSCAPE extension counts *repeats*, and omitting it means "play once".
+// gifenc maps repeat -1 to "no extension", 0 to forever.
+export const getGifRepeat = (loopCount: number) => {
+  if (loopCount <= 0) return 0;
+  return loopCount === 1 ? -1 : loopCount - 1;
+};
@@ -0,0 +1,125 @@
+import { ConvertOptions } from '../types';
+import { OptionOverrides } from './options';
+import { toStoredOptions } from './presets';
+import { getMimeType } from './disk';
+
+// Local render history. Metadata lives in IndexedDB; the files themselves go to the
+// origin private file system (OPFS) where available, or into the IndexedDB record.
+
+export interface RenderRecord {
+  id: string;
+  fileName: string;        // Source animation
+  outputName: string;      // Download name
+  createdAt: number;
+  options: OptionOverrides; // Settings used, without attached files
+  encoder: string;         // e.g. "H.264 MP4 + AAC"
+  width: number;
+  height: number;
+  durationSeconds: number; // Output length (0 for stills)
+  bytes: number;
+  renderSeconds: number;
+  mimeType: string;
+  blob?: Blob;             // Only when OPFS is unavailable
+}
+
+export type NewRender = Omit<RenderRecord, 'id' | 'createdAt' | 'options' | 'bytes' | 'mimeType' | 'blob'>;
+
+const DB_NAME = 'lottie2mp4';
+const STORE = 'renders';
+const OPFS_DIRECTORY = 'renders';
+
+// Oldest renders are deleted beyond this
+const MAX_RENDERS = 50;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let db: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  db ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return db;
+};
+
+const getStore = async (mode: IDBTransactionMode) =>
+  (await openDb()).transaction(STORE, mode).objectStore(STORE);
+
+const getOpfsDirectory = async () => {
+  if (!navigator.storage?.getDirectory) return null;
+  try {
+    return await (await navigator.storage.getDirectory()).getDirectoryHandle(OPFS_DIRECTORY, { create: true });
+  } catch {
+    return null;
+  }
+};
+
+// False when the file could not be written (no OPFS, quota, Safari without createWritable);
+// nothing partial is left behind
+const writeOpfsFile = async (id: string, blob: Blob) => {
+  const directory = await getOpfsDirectory();
+  if (!directory) return false;
+  let writable: FileSystemWritableFileStream | null = null;
+  try {
+    writable = await (await directory.getFileHandle(id, { create: true })).createWritable();
+    await writable.write(blob);
+    await writable.close();
+    return true;
+  } catch (err) {
+    console.warn('Could not store the render in OPFS, keeping it in IndexedDB:', err);
+    await writable?.abort().catch(() => {});
+    await directory.removeEntry(id).catch(() => {});
+    return false;
+  }
+};
+
+export const listRenders = async (): Promise<RenderRecord[]> => {
+  const records = await promisify((await getStore('readonly')).getAll() as IDBRequest<RenderRecord[]>);
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getRenderBlob = async (record: RenderRecord): Promise<Blob> => {
+  if (record.blob) return record.blob;
+  const directory = await getOpfsDirectory();
+  if (!directory) throw new Error("The stored file is no longer available.");
+  const file = await (await directory.getFileHandle(record.id)).getFile();
+  return file.slice(0, file.size, record.mimeType);
+};
+
+export const deleteRender = async (id: string) => {
+  await promisify((await getStore('readwrite')).delete(id));
+  const directory = await getOpfsDirectory();
+  await directory?.removeEntry(id).catch(() => {});
+};
+
+export const addRender = async (blob: Blob, render: NewRender, options: ConvertOptions): Promise<RenderRecord> => {
+  const record: RenderRecord = {
+    ...render,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    options: toStoredOptions(options),
+    bytes: blob.size,
+    mimeType: blob.type || getMimeType(options.format),
+  };
+
+  if (!(await writeOpfsFile(record.id, blob))) record.blob = blob;
+  await promisify((await getStore('readwrite')).put(record));
+
+  // Ask once for storage the browser won't evict under pressure; declining is fine
+  navigator.storage?.persist?.().catch(() => {});
+
+  const stale = (await listRenders()).slice(MAX_RENDERS);
+  for (const old of stale) await deleteRender(old.id);
+  return record;
+};
+
+// Formats that play back in a <video> / <img> element
+export const isPlayableRender = (record: RenderRecord) =>
+  record.mimeType.startsWith('video/') || record.mimeType.startsWith('image/');
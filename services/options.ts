@@ -0,0 +1,40 @@
+import { Codec, ConvertOptions, FrameRate, OutputFormat, RendererKind, Resolution } from '../types';
+import { DEFAULT_ANIMATED, DEFAULT_ENCODING, DEFAULT_IMAGE_EXPORT } from './encoders';
+import { DEFAULT_BACKGROUND } from './background';
+import { DEFAULT_SIZING } from './sizing';
+import { DEFAULT_RANGE } from './range';
+import { DEFAULT_TIMING } from './timing';
+import { DEFAULT_AUDIO } from './audio';
+
+export const DEFAULT_OPTIONS: ConvertOptions = {
+  resolution: Resolution.FHD,
+  sizing: DEFAULT_SIZING,
+  fps: FrameRate.FPS_60,
+  format: OutputFormat.MP4,
+  codec: Codec.H264,
+  encoding: DEFAULT_ENCODING,
+  background: DEFAULT_BACKGROUND,
+  animated: DEFAULT_ANIMATED,
+  image: DEFAULT_IMAGE_EXPORT,
+  audio: DEFAULT_AUDIO,
+  range: DEFAULT_RANGE,
+  timing: DEFAULT_TIMING,
+  renderer: RendererKind.AUTO,
+  streamToDisk: false,
+};
+
+export type OptionOverrides = { [K in keyof ConvertOptions]?: ConvertOptions[K] extends object ? Partial<ConvertOptions[K]> : ConvertOptions[K] };
+
+// Applies user-supplied overrides (CLI flags, config files). Grouped settings such as
+// `encoding` or `background` merge field by field, so partial groups keep their defaults.
+export const mergeOptions = (base: ConvertOptions, overrides: OptionOverrides): ConvertOptions => {
+  const merged: any = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    const current = merged[key];
+    merged[key] = current && typeof current === 'object' && value && typeof value === 'object' && !Array.isArray(value)
+      ? { ...current, ...value }
+      : value;
+  }
+  return merged;
+};
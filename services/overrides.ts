@@ -0,0 +1,263 @@
+import { LottieFile } from '../types';
+
+// Brand variants without re-exporting: lists the colours, texts and images of an
+// animation and applies edits to a copy of it. Targets are identified by their JSON
+// path, so the same ids find the same properties again in the copy.
+
+export type ColorKind = 'fill' | 'stroke' | 'gradient' | 'text' | 'solid';
+
+export interface EditableColor {
+  id: string;
+  label: string;     // Layer › group › shape names
+  layer: string;     // Name of the layer it belongs to
+  kind: ColorKind;
+  color: string;     // #rrggbb, the first keyframe when animated
+  animated: boolean; // Overriding an animated colour makes it static
+}
+
+export interface EditableText {
+  id: string;
+  label: string;
+  layer: string;
+  text: string;
+}
+
+export interface EditableImage {
+  id: string;        // Asset id
+  label: string;
+  layers: string[];  // Names of the image layers showing it
+  width: number;
+  height: number;
+  src: string;       // Embedded data URI or the hosted URL
+}
+
+export interface Editables {
+  colors: EditableColor[];
+  texts: EditableText[];
+  images: EditableImage[];
+  palette: string[];     // Every distinct colour, most used first
+  glyphText: boolean;    // Text is drawn from embedded glyphs, so new characters may be missing
+}
+
+export interface PropertyOverrides {
+  colors: Record<string, string>;  // Colour id -> #rrggbb
+  texts: Record<string, string>;   // Text id -> new text
+  images: Record<string, string>;  // Asset id -> data URI
+  palette: Record<string, string>; // #rrggbb -> #rrggbb, applied to every property using it
+}
+
+export const EMPTY_OVERRIDES: PropertyOverrides = { colors: {}, texts: {}, images: {}, palette: {} };
+
+export const hasOverrides = (overrides: PropertyOverrides) =>
+  Object.values(overrides).some((group) => Object.keys(group).length > 0);
+
+// Layer types, see the Lottie schema
+const LAYER_SOLID = 1;
+const LAYER_IMAGE = 2;
+const LAYER_TEXT = 5;
+
+// Labels for unnamed shape items
+const SHAPE_NAMES: Record<string, string> = {
+  gr: 'Group',
+  fl: 'Fill',
+  st: 'Stroke',
+  gf: 'Gradient fill',
+  gs: 'Gradient stroke',
+};
+
+interface ColorTarget {
+  id: string;
+  label: string;
+  layer: string;
+  kind: ColorKind;
+  animated: boolean;
+  values: () => number[][]; // Every RGB triple the property takes (0-1)
+  map: (fn: (rgb: number[]) => number[]) => void;
+}
+
+interface TextTarget {
+  id: string;
+  label: string;
+  layer: string;
+  keyframes: { s: { t: string } }[];
+}
+
+const isKeyframed = (property: any) => Array.isArray(property?.k) && typeof property.k[0] === 'object';
+
+// Old exporters wrote 0-255 channels instead of 0-1
+const toUnit = (rgb: number[]) => (rgb.some((v) => v > 1) ? rgb.map((v) => v / 255) : rgb);
+
+export const toHex = (rgb: number[]) =>
+  '#' + toUnit(rgb).map((v) => Math.round(Math.min(1, Math.max(0, v)) * 255).toString(16).padStart(2, '0')).join('');
+
+export const fromHex = (hex: string) =>
+  [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+
+// The RGB triple at `offset` in a static value or in every keyframe's start/end value
+const propertyTarget = (id: string, label: string, layer: string, kind: ColorKind, property: any, offset = 0): ColorTarget => {
+  const arrays = (): number[][] =>
+    (isKeyframed(property) ? property.k.flatMap((kf: any) => [kf.s, kf.e]) : [property.k]).filter(Array.isArray);
+  return {
+    id,
+    label,
+    layer,
+    kind,
+    animated: isKeyframed(property),
+    values: () => arrays().map((value) => value.slice(offset, offset + 3)),
+    map: (fn) => arrays().forEach((value) => value.splice(offset, 3, ...fn(value.slice(offset, offset + 3)))),
+  };
+};
+
+const collectTargets = (animation: LottieFile) => {
+  const colors: ColorTarget[] = [];
+  const texts: TextTarget[] = [];
+  const imageLayers: { layer: string; assetId: string }[] = [];
+
+  // Properties bound to a slot take their value from it, so that is what gets edited
+  const resolve = (property: any) =>
+    property?.sid && animation.slots?.[property.sid] ? animation.slots[property.sid].p : property;
+
+  // A slot shared by several properties is listed (and swapped) once
+  const claimed = new Map<any, Set<number>>();
+  const claim = (property: any, offset = 0) => {
+    const offsets = claimed.get(property) ?? new Set<number>();
+    claimed.set(property, offsets);
+    if (offsets.has(offset)) return false;
+    offsets.add(offset);
+    return true;
+  };
+
+  const walkShapes = (items: any[], path: string, label: string, layer: string) => {
+    items.forEach((item, i) => {
+      if (!item || typeof item !== 'object') return;
+      const itemPath = `${path}.${i}`;
+      const itemLabel = `${label} › ${item.nm || SHAPE_NAMES[item.ty] || item.ty}`;
+      if (item.ty === 'gr' && Array.isArray(item.it)) {
+        walkShapes(item.it, `${itemPath}.it`, itemLabel, layer);
+      } else if ((item.ty === 'fl' || item.ty === 'st') && item.c) {
+        const property = resolve(item.c);
+        if (claim(property)) colors.push(propertyTarget(itemPath, itemLabel, layer, item.ty === 'fl' ? 'fill' : 'stroke', property));
+      } else if ((item.ty === 'gf' || item.ty === 'gs') && item.g?.k) {
+        // Gradient data is [offset, r, g, b] per colour stop, then the opacity stops
+        const property = resolve(item.g.k);
+        for (let stop = 0; stop < (item.g.p ?? 0); stop++) {
+          if (!claim(property, stop * 4 + 1)) continue;
+          colors.push(propertyTarget(`${itemPath}#${stop}`, `${itemLabel} · stop ${stop + 1}`, layer, 'gradient', property, stop * 4 + 1));
+        }
+      }
+    });
+  };
+
+  const walkLayers = (layers: any[], path: string, label: string) => {
+    layers.forEach((layer, i) => {
+      if (!layer || typeof layer !== 'object') return;
+      const layerPath = `${path}.${i}`;
+      const layerName = layer.nm || `Layer ${i + 1}`;
+      const layerLabel = label ? `${label} › ${layerName}` : layerName;
+
+      if (layer.ty === LAYER_SOLID && typeof layer.sc === 'string') {
+        colors.push({
+          id: layerPath,
+          label: layerLabel,
+          layer: layerName,
+          kind: 'solid',
+          animated: false,
+          values: () => [fromHex(layer.sc)],
+          map: (fn) => { layer.sc = toHex(fn(fromHex(layer.sc))); },
+        });
+      }
+      if (Array.isArray(layer.shapes)) walkShapes(layer.shapes, `${layerPath}.shapes`, layerLabel, layerName);
+      if (layer.ty === LAYER_IMAGE && layer.refId) imageLayers.push({ layer: layerName, assetId: layer.refId });
+
+      const documents = layer.ty === LAYER_TEXT ? layer.t?.d?.k : null;
+      if (Array.isArray(documents) && documents.length > 0) {
+        texts.push({ id: layerPath, label: layerLabel, layer: layerName, keyframes: documents });
+        // Text colours live in each document keyframe
+        const fill = documents.filter((kf: any) => Array.isArray(kf?.s?.fc));
+        if (fill.length > 0) {
+          colors.push({
+            id: `${layerPath}.fc`,
+            label: layerLabel,
+            layer: layerName,
+            kind: 'text',
+            animated: fill.length > 1,
+            values: () => fill.map((kf: any) => kf.s.fc.slice(0, 3)),
+            map: (fn) => fill.forEach((kf: any) => { kf.s.fc = fn(kf.s.fc.slice(0, 3)); }),
+          });
+        }
+      }
+    });
+  };
+
+  if (Array.isArray(animation.layers)) walkLayers(animation.layers, 'layers', '');
+  (animation.assets ?? []).forEach((asset, i) => {
+    if (Array.isArray(asset?.layers)) walkLayers(asset.layers, `assets.${i}.layers`, asset.nm || asset.id);
+  });
+
+  return { colors, texts, imageLayers };
+};
+
+// Image assets are the ones with a file path and no layers of their own
+const getImageAssets = (animation: LottieFile) =>
+  (animation.assets ?? []).filter((asset) => asset && !Array.isArray(asset.layers) && typeof asset.p === 'string');
+
+export const listEditables = (animation: LottieFile): Editables => {
+  const { colors, texts, imageLayers } = collectTargets(animation);
+
+  const usage = new Map<string, number>();
+  for (const target of colors) {
+    for (const rgb of target.values()) {
+      const hex = toHex(rgb);
+      usage.set(hex, (usage.get(hex) ?? 0) + 1);
+    }
+  }
+
+  return {
+    colors: colors.map(({ id, label, layer, kind, animated, values }) => ({ id, label, layer, kind, animated, color: toHex(values()[0] ?? [0, 0, 0]) })),
+    texts: texts.map(({ id, label, layer, keyframes }) => ({ id, label, layer, text: String(keyframes[0]?.s?.t ?? '').replace(/\r/g, '\n') })),
+    images: getImageAssets(animation).map((asset) => ({
+      id: asset.id,
+      label: asset.p.startsWith('data:') ? asset.id : asset.p,
+      layers: imageLayers.filter(({ assetId }) => assetId === asset.id).map(({ layer }) => layer),
+      width: asset.w,
+      height: asset.h,
+      src: asset.p.startsWith('data:') ? asset.p : `${asset.u ?? ''}${asset.p}`,
+    })),
+    palette: [...usage.entries()].sort((a, b) => b[1] - a[1]).map(([hex]) => hex),
+    glyphText: (animation.chars?.length ?? 0) > 0,
+  };
+};
+
+// Returns a copy with the overrides applied (the input is returned as-is when there are none).
+// Palette swaps run first so per-property colours win over them.
+export const applyOverrides = (animation: LottieFile, overrides: PropertyOverrides): LottieFile => {
+  if (!hasOverrides(overrides)) return animation;
+  const copy: LottieFile = structuredClone(animation);
+  const { colors, texts } = collectTargets(copy);
+
+  if (Object.keys(overrides.palette).length > 0) {
+    for (const target of colors) {
+      target.map((rgb) => {
+        const swap = overrides.palette[toHex(rgb)];
+        return swap ? fromHex(swap) : rgb;
+      });
+    }
+  }
+  for (const target of colors) {
+    const color = overrides.colors[target.id];
+    if (color) target.map(() => fromHex(color));
+  }
+
+  for (const target of texts) {
+    const text = overrides.texts[target.id];
+    if (text === undefined) continue;
+    // Lottie separates lines with carriage returns
+    for (const keyframe of target.keyframes) keyframe.s.t = text.replace(/\r?\n/g, '\r');
+  }
+
+  for (const asset of getImageAssets(copy)) {
+    const src = overrides.images[asset.id];
+    if (src) Object.assign(asset, { u: '', p: src, e: 1 });
+  }
+  return copy;
+};
@@ -0,0 +1,40 @@
+// Ordered producer/consumer pipeline: up to `concurrency` items are produced at
+// once, but they are consumed strictly in index order. Production is started
+// synchronously in index order too, which render backends rely on to capture
+// animation state before they await anything.
+
+export interface PipelineOptions<T> {
+  count: number;
+  concurrency: number;
+  produce: (index: number) => Promise<T>;
+  consume: (index: number, item: T) => Promise<void>;
+  // Frees an item that was produced but will never be consumed (after a failure)
+  discard?: (item: T) => void;
+}
+
+export const runOrderedPipeline = async <T>({ count, concurrency, produce, consume, discard }: PipelineOptions<T>) => {
+  const inFlight = new Map<number, Promise<T>>();
+  let nextToProduce = 0;
+
+  try {
+    for (let index = 0; index < count; index++) {
+      while (nextToProduce < count && nextToProduce < index + Math.max(1, concurrency)) {
+        const produced = produce(nextToProduce);
+        // Marks the rejection as handled while earlier items are still awaited; it
+        // surfaces when this item's turn comes (or is dropped after a failure)
+        produced.catch(() => {});
+        inFlight.set(nextToProduce, produced);
+        nextToProduce++;
+      }
+
+      const item = await inFlight.get(index)!;
+      inFlight.delete(index);
+      await consume(index, item);
+    }
+  } finally {
+    // Anything still in flight belongs to an aborted/failed run
+    for (const pending of inFlight.values()) {
+      pending.then((item) => discard?.(item), () => {});
+    }
+  }
+};
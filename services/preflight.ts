@@ -0,0 +1,177 @@
+import { ConvertOptions, LottieFile, OutputFormat, RendererKind } from '../types';
+import { detectFeatures, LottieFeatures } from './features';
+import { getOutputFps, isStillFormat, supportsAudio } from './encoders';
+import { getDimensions } from './sizing';
+import { createTimeline, getMarkerNames } from './range';
+import { isWorkerRendererSupported, pickRenderer, RENDERER_LABELS } from './renderers';
+import { getAtlasError, getAtlasLayout } from './spritesheet';
+
+// Checks run before a conversion starts: is this a Lottie file at all, can the
+// selected renderer draw everything in it, and roughly how long will it take.
+
+export type PreflightSeverity = 'error' | 'warning' | 'info';
+
+export interface PreflightIssue {
+  severity: PreflightSeverity;
+  message: string;
+}
+
+export interface PreflightReport {
+  issues: PreflightIssue[];
+  renderer: RendererKind;   // Never AUTO: the backend that will actually be used
+  renderedFrames: number;   // Lottie frames to render, counting blend/motion blur samples
+  estimatedSeconds: number;
+  cost: 'low' | 'medium' | 'high';
+}
+
+// Effect `ty` codes lottie-web draws (20 tint, 21 fill, 22 stroke, 23 tritone, 24 levels,
+// 25 drop shadow, 28 set matte, 29 gaussian blur, 35 transform)
+const SVG_EFFECTS = [20, 21, 22, 23, 24, 25, 28, 29, 35];
+const CANVAS_EFFECTS = [35];
+// Expression controls (slider, angle, color, point, checkbox, group, dropdown, layer) draw nothing
+const EXPRESSION_CONTROLS = [0, 1, 2, 3, 4, 5, 6, 7, 10];
+
+// Ballpark cost of one 1-megapixel frame of a simple scene; real files vary a lot
+const RENDER_MS_PER_MEGAPIXEL: Record<RendererKind, number> = {
+  [RendererKind.AUTO]: 30,
+  [RendererKind.SVG]: 30,
+  [RendererKind.CANVAS]: 10,
+  [RendererKind.WORKER]: 4,
+};
+const LOW_COST_SECONDS = 30;
+const HIGH_COST_SECONDS = 180;
+
+const isPositiveNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+const isFiniteNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+// Required top-level fields. Returns one message per problem; empty when valid.
+export const validateLottie = (data: unknown): string[] => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['The file is not a Lottie animation (expected a JSON object).'];
+  }
+  const file = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof file.v !== 'string') errors.push('Missing version ("v").');
+  if (!isPositiveNumber(file.fr)) errors.push('Missing or invalid frame rate ("fr").');
+  if (!isFiniteNumber(file.ip)) errors.push('Missing or invalid in point ("ip").');
+  if (!isFiniteNumber(file.op)) errors.push('Missing or invalid out point ("op").');
+  if (isFiniteNumber(file.ip) && isFiniteNumber(file.op) && (file.op as number) <= (file.ip as number)) {
+    errors.push('The out point ("op") must come after the in point ("ip").');
+  }
+  if (!isPositiveNumber(file.w) || !isPositiveNumber(file.h)) errors.push('Missing or invalid size ("w", "h").');
+  if (!Array.isArray(file.layers)) {
+    errors.push('Missing layer list ("layers").');
+  } else if (file.layers.some((layer) => !layer || typeof layer !== 'object' || typeof layer.ty !== 'number')) {
+    errors.push('Some layers have no type ("ty").');
+  }
+  if (file.assets !== undefined && !Array.isArray(file.assets)) errors.push('Invalid asset list ("assets").');
+
+  return errors;
+};
+
+// Throws the validation errors as one message (used where there is no report UI, e.g. batch)
+export const assertValidLottie = (data: unknown) => {
+  const errors = validateLottie(data);
+  if (errors.length > 0) throw new Error(`Invalid Lottie file: ${errors.join(' ')}`);
+};
+
+const countLayers = (animation: LottieFile) =>
+  animation.layers.length +
+  (animation.assets ?? []).reduce((sum: number, asset: any) => sum + (Array.isArray(asset.layers) ? asset.layers.length : 0), 0);
+
+const getSamplesPerFrame = ({ timing }: ConvertOptions) => {
+  if (timing.mode === 'frame-blend') return 2;
+  if (timing.mode === 'motion-blur') return Math.max(1, Math.round(timing.samples));
+  return 1;
+};
+
+// Features the chosen backend will skip or cannot handle
+const getRendererIssues = (renderer: RendererKind, features: LottieFeatures): PreflightIssue[] => {
+  const issues: PreflightIssue[] = [];
+  const drawn = renderer === RendererKind.SVG ? SVG_EFFECTS : CANVAS_EFFECTS;
+  const skipped = features.effectTypes.filter((ty) => !drawn.includes(ty) && !EXPRESSION_CONTROLS.includes(ty));
+  const name = RENDERER_LABELS[renderer];
+
+  if (skipped.length > 0) {
+    issues.push({ severity: 'warning', message: `Effects of type ${skipped.join(', ')} are not drawn by the ${name} renderer.` });
+  }
+  if (renderer !== RendererKind.SVG) {
+    if (features.threeD) issues.push({ severity: 'warning', message: `3D layers are flattened by the ${name} renderer.` });
+    if (features.mergePaths) issues.push({ severity: 'warning', message: `Merge paths are ignored by the ${name} renderer.` });
+  }
+  if (renderer === RendererKind.WORKER) {
+    if (!isWorkerRendererSupported()) {
+      issues.push({ severity: 'error', message: 'The worker renderer needs OffscreenCanvas, which this browser lacks.' });
+    }
+    if (features.images) issues.push({ severity: 'warning', message: 'Image layers cannot be drawn in a worker.' });
+    if (features.text) issues.push({ severity: 'warning', message: 'Text layers cannot be drawn in a worker (no document fonts).' });
+    if (features.lumaMattes) issues.push({ severity: 'warning', message: 'Luma mattes cannot be drawn in a worker.' });
+  }
+  if (features.expressions) {
+    issues.push({ severity: 'info', message: 'Expressions are evaluated on every frame and may slow rendering down.' });
+  }
+  return issues;
+};
+
+export const createPreflightReport = (data: unknown, options: ConvertOptions): PreflightReport => {
+  const errors = validateLottie(data);
+  if (errors.length > 0) {
+    return {
+      issues: errors.map((message) => ({ severity: 'error', message })),
+      renderer: options.renderer === RendererKind.AUTO ? RendererKind.SVG : options.renderer,
+      renderedFrames: 0,
+      estimatedSeconds: 0,
+      cost: 'low',
+    };
+  }
+
+  const animation = data as LottieFile;
+  const issues: PreflightIssue[] = [];
+
+  let renderer = options.renderer;
+  if (renderer === RendererKind.AUTO) {
+    const pick = pickRenderer(animation);
+    renderer = pick.kind;
+    issues.push({ severity: 'info', message: `Auto picks the ${RENDERER_LABELS[pick.kind]} renderer: ${pick.reason}.` });
+  }
+  issues.push(...getRendererIssues(renderer, detectFeatures(animation)));
+
+  let durationSeconds = 0;
+  try {
+    durationSeconds = createTimeline(options.range, animation).durationSeconds;
+  } catch (err) {
+    issues.push({ severity: 'error', message: err instanceof Error ? err.message : 'Invalid export range.' });
+  }
+
+  const { audio } = options;
+  if (audio.file && !supportsAudio(options.format)) {
+    issues.push({ severity: 'info', message: 'The audio track is only muxed into MP4 and WebM; this format drops it.' });
+  } else if (audio.file && audio.marker && !getMarkerNames(animation).includes(audio.marker)) {
+    issues.push({ severity: 'error', message: `Audio marker "${audio.marker}" not found in this animation.` });
+  }
+
+  const { w, h } = getDimensions(options.resolution, options.sizing, animation.w, animation.h);
+  const outputFrames = isStillFormat(options.format)
+    ? 1
+    : Math.ceil(durationSeconds * getOutputFps(options.format, options.fps, options.animated));
+  if (options.format === OutputFormat.SPRITE_SHEET && outputFrames > 0) {
+    const atlasError = getAtlasError(getAtlasLayout(outputFrames, w, h, options.image.columns));
+    if (atlasError) issues.push({ severity: 'error', message: atlasError });
+  }
+  const renderedFrames = outputFrames * getSamplesPerFrame(options);
+  // Big layer counts cost more than resolution alone suggests
+  const complexity = 1 + countLayers(animation) / 50;
+  const estimatedSeconds = (renderedFrames * RENDER_MS_PER_MEGAPIXEL[renderer] * ((w * h) / 1e6) * complexity) / 1000;
+
+  return {
+    issues,
+    renderer,
+    renderedFrames,
+    estimatedSeconds,
+    cost: estimatedSeconds < LOW_COST_SECONDS ? 'low' : estimatedSeconds < HIGH_COST_SECONDS ? 'medium' : 'high',
+  };
+};
+
+export const hasBlockingIssues = (report: PreflightReport) =>
+  report.issues.some((issue) => issue.severity === 'error');
@@ -0,0 +1,201 @@
+import { Codec, ConvertOptions, FrameRate, LottieFile, OutputFormat, Resolution, SizingMode } from '../types';
+import { DEFAULT_OPTIONS, mergeOptions, OptionOverrides } from './options';
+
+// Named presets and remembered settings, kept in localStorage. Attached files
+// (background media, audio) can't be stored, so they stay as they are when
+// stored settings are applied.
+
+export interface Preset {
+  name: string;
+  options: OptionOverrides;
+  builtIn?: boolean;
+}
+
+// Shape of exported preset files
+interface PresetFile {
+  version: 1;
+  presets: Preset[];
+}
+
+const PRESETS_KEY = 'lottie2mp4:presets';
+const LAST_OPTIONS_KEY = 'lottie2mp4:options';
+const FILE_OPTIONS_KEY = 'lottie2mp4:files';
+
+// Oldest per-file entries are dropped beyond this, to stay well inside the storage quota
+const MAX_REMEMBERED_FILES = 100;
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    name: 'Instagram Reel',
+    builtIn: true,
+    options: {
+      resolution: Resolution.FHD,
+      sizing: { mode: SizingMode.VERTICAL },
+      fps: FrameRate.FPS_30,
+      format: OutputFormat.MP4,
+      codec: Codec.H264,
+    },
+  },
+  {
+    name: 'Website hero 4K',
+    builtIn: true,
+    options: {
+      resolution: Resolution.UHD,
+      sizing: { mode: SizingMode.LANDSCAPE },
+      fps: FrameRate.FPS_60,
+      format: OutputFormat.MP4,
+      codec: Codec.H264,
+    },
+  },
+  {
+    name: 'Transparent overlay',
+    builtIn: true,
+    options: {
+      resolution: Resolution.FHD,
+      sizing: { mode: SizingMode.MATCH_SOURCE },
+      fps: FrameRate.FPS_60,
+      format: OutputFormat.WEBM_ALPHA,
+      codec: Codec.VP9,
+    },
+  },
+  {
+    name: 'Chat GIF',
+    builtIn: true,
+    options: {
+      resolution: Resolution.HD,
+      sizing: { mode: SizingMode.MATCH_SOURCE },
+      format: OutputFormat.GIF,
+      animated: { fps: 15, maxBytes: 8 * 1024 * 1024 },
+    },
+  },
+];
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Storage can be full or disabled (private windows); settings then just aren't kept
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Could not save ${key}:`, err);
+  }
+};
+
+// Everything except attached files
+export const toStoredOptions = (options: ConvertOptions): OptionOverrides => {
+  const { media: _media, ...background } = options.background;
+  const { file: _file, ...audio } = options.audio;
+  return { ...options, background, audio };
+};
+
+// In/out points, markers and the still position only fit the file they were set for:
+// they are kept per file and never carried over to the next one
+const toSharedOptions = (options: ConvertOptions): OptionOverrides => {
+  const { range: _range, ...stored } = toStoredOptions(options);
+  const { marker: _marker, ...audio } = stored.audio;
+  const { at: _at, ...image } = stored.image;
+  return { ...stored, audio, image };
+};
+
+// Current settings with the file-specific ones back at their defaults
+export const clearFileSettings = (options: ConvertOptions): ConvertOptions => ({
+  ...options,
+  range: DEFAULT_OPTIONS.range,
+  audio: { ...options.audio, marker: DEFAULT_OPTIONS.audio.marker },
+  image: { ...options.image, at: DEFAULT_OPTIONS.image.at },
+});
+
+// Stored settings on top of the defaults (so settings added since keep their default),
+// with the files currently attached carried over
+export const restoreOptions = (stored: OptionOverrides, current: ConvertOptions): ConvertOptions => {
+  const restored = mergeOptions(DEFAULT_OPTIONS, stored);
+  return {
+    ...restored,
+    background: { ...restored.background, media: current.background.media },
+    audio: { ...restored.audio, file: current.audio.file },
+  };
+};
+
+// Presets change the output, not which part of which file is rendered. Built-in presets
+// only set a few fields; everything they leave out keeps its current value.
+export const applyPreset = (options: ConvertOptions, preset: Preset): ConvertOptions => {
+  const { range: _range, ...presetOptions } = preset.options;
+  return mergeOptions(options, presetOptions);
+};
+
+// --- Presets ---
+
+export const loadPresets = (): Preset[] => readJson<Preset[]>(PRESETS_KEY, []);
+
+export const savePreset = (name: string, options: ConvertOptions): Preset[] => {
+  const { range: _range, ...stored } = toStoredOptions(options);
+  const presets = [...loadPresets().filter((preset) => preset.name !== name), { name, options: stored }];
+  writeJson(PRESETS_KEY, presets);
+  return presets;
+};
+
+export const deletePreset = (name: string): Preset[] => {
+  const presets = loadPresets().filter((preset) => preset.name !== name);
+  writeJson(PRESETS_KEY, presets);
+  return presets;
+};
+
+export const exportPresets = (presets: Preset[]): Blob => {
+  const file: PresetFile = { version: 1, presets: presets.map(({ name, options }) => ({ name, options })) };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+// Imported presets replace saved ones of the same name
+export const importPresets = (text: string): Preset[] => {
+  let file: Partial<PresetFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("The preset file is not valid JSON.");
+  }
+  const imported = Array.isArray(file.presets)
+    ? file.presets.filter((preset) => typeof preset?.name === 'string' && preset.options && typeof preset.options === 'object')
+    : [];
+  if (imported.length === 0) throw new Error("The file contains no presets.");
+
+  const names = new Set(imported.map((preset) => preset.name));
+  const presets = [
+    ...loadPresets().filter((preset) => !names.has(preset.name)),
+    ...imported.map(({ name, options }) => ({ name, options })),
+  ];
+  writeJson(PRESETS_KEY, presets);
+  return presets;
+};
+
+// --- Remembered settings ---
+
+export const loadLastOptions = (): ConvertOptions =>
+  restoreOptions(readJson<OptionOverrides>(LAST_OPTIONS_KEY, {}), DEFAULT_OPTIONS);
+
+export const saveLastOptions = (options: ConvertOptions) => writeJson(LAST_OPTIONS_KEY, toSharedOptions(options));
+
+// Content hash, so a file keeps its settings however it is named
+export const getFileKey = async (animation: LottieFile) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(animation)));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+type FileOptionsStore = Record<string, { options: OptionOverrides; savedAt: number }>;
+
+export const loadFileOptions = (key: string): OptionOverrides | null =>
+  readJson<FileOptionsStore>(FILE_OPTIONS_KEY, {})[key]?.options ?? null;
+
+export const saveFileOptions = (key: string, options: ConvertOptions) => {
+  const store = readJson<FileOptionsStore>(FILE_OPTIONS_KEY, {});
+  store[key] = { options: toStoredOptions(options), savedAt: Date.now() };
+  const keys = Object.keys(store).sort((a, b) => store[b].savedAt - store[a].savedAt);
+  for (const stale of keys.slice(MAX_REMEMBERED_FILES)) delete store[stale];
+  writeJson(FILE_OPTIONS_KEY, store);
+};
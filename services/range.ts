@@ -0,0 +1,88 @@
+import { LottieFile, LottieMarker, RangeOptions } from '../types';
+
+export const DEFAULT_RANGE: RangeOptions = {
+  unit: 'frames',
+  start: null,
+  end: null,
+  marker: null,
+  repeat: 1,
+  targetDuration: null,
+  pingPong: false,
+};
+
+// Maps output time to Lottie frames. Frames are relative to the animation's
+// in point, which is what lottie-web's goToAndStop(frame, true) expects.
+export interface Timeline {
+  startFrame: number;
+  endFrame: number;        // Exclusive
+  durationSeconds: number; // Total output length including repeats
+  frameAt: (seconds: number) => number;
+}
+
+// Exporters differ: plain names, or a JSON object such as {"name":"intro"}
+export const getMarkerName = (marker: LottieMarker) => {
+  if (marker.cm.trim().startsWith('{')) {
+    try {
+      const parsed = JSON.parse(marker.cm);
+      if (typeof parsed.name === 'string') return parsed.name;
+    } catch {
+      // Not JSON after all, use as-is
+    }
+  }
+  return marker.cm;
+};
+
+export const getMarkerNames = (animation: LottieFile) =>
+  (animation.markers ?? []).map(getMarkerName);
+
+// Marker positions in frames from the in point, for drawing them on a timeline
+export const getMarkerFrames = (animation: LottieFile) =>
+  (animation.markers ?? []).map((marker) => ({ name: getMarkerName(marker), frame: marker.tm - animation.ip }));
+
+const resolveSegment = (range: RangeOptions, animation: LottieFile) => {
+  const fr = animation.fr || 30;
+  const totalFrames = animation.op - animation.ip;
+
+  if (range.marker) {
+    const marker = (animation.markers ?? []).find((m) => getMarkerName(m) === range.marker);
+    if (!marker) throw new Error(`Marker "${range.marker}" not found in this animation.`);
+    const start = Math.max(0, marker.tm - animation.ip);
+    // Zero-length markers are cue points: play from there to the end
+    const end = marker.dr > 0 ? Math.min(totalFrames, start + marker.dr) : totalFrames;
+    return { start, end };
+  }
+
+  const toFrames = (value: number) => range.unit === 'seconds' ? value * fr : value;
+  const start = Math.min(totalFrames, Math.max(0, toFrames(range.start ?? 0)));
+  const end = Math.min(totalFrames, Math.max(0, range.end === null ? totalFrames : toFrames(range.end)));
+  return { start, end };
+};
+
+// Seconds from the first output frame to a marker (negative when the range starts after it)
+export const getMarkerTime = (range: RangeOptions, animation: LottieFile, name: string) => {
+  const marker = (animation.markers ?? []).find((m) => getMarkerName(m) === name);
+  if (!marker) throw new Error(`Marker "${name}" not found in this animation.`);
+  const { start } = resolveSegment(range, animation);
+  return (marker.tm - animation.ip - start) / (animation.fr || 30);
+};
+
+export const createTimeline = (range: RangeOptions, animation: LottieFile): Timeline => {
+  const fr = animation.fr || 30;
+  const { start, end } = resolveSegment(range, animation);
+  const length = end - start;
+  if (length <= 0) throw new Error("The out point must come after the in point.");
+
+  // One cycle is a single pass, or forward + reverse in ping-pong mode
+  const cycleFrames = range.pingPong ? length * 2 : length;
+  const durationSeconds = range.targetDuration ?? (cycleFrames / fr) * Math.max(1, Math.round(range.repeat));
+
+  return {
+    startFrame: start,
+    endFrame: end,
+    durationSeconds,
+    frameAt: (seconds) => {
+      const position = (seconds * fr) % cycleFrames;
+      return start + (position > length ? cycleFrames - position : position);
+    },
+  };
+};
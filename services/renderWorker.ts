@@ -0,0 +1,83 @@
+// Web Worker that runs lottie-web's canvas renderer on an OffscreenCanvas and
+// hands back each requested frame as an ImageBitmap.
+
+// Must stay the first import: lottie-web touches `document` while it loads
+import './workerDomShim';
+// The full canvas build (not "light"), so expressions keep working
+import lottie from 'lottie-web/build/player/lottie_canvas';
+
+export type WorkerRequest =
+  | { type: 'load'; animationData: unknown; width: number; height: number; preserveAspectRatio: string }
+  | { type: 'render'; id: number; frame: number; width: number; height: number }
+  | { type: 'destroy' };
+
+export type WorkerResponse =
+  | { type: 'loaded' }
+  | { type: 'frame'; id: number; bitmap: ImageBitmap }
+  | { type: 'error'; id?: number; message: string };
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+};
+
+let canvas: OffscreenCanvas | null = null;
+let anim: any = null;
+
+const load = async ({ animationData, width, height, preserveAspectRatio }: Extract<WorkerRequest, { type: 'load' }>) => {
+  canvas = new OffscreenCanvas(width, height);
+  anim = lottie.loadAnimation({
+    renderer: 'canvas',
+    loop: false,
+    autoplay: false,
+    animationData,
+    rendererSettings: {
+      context: canvas.getContext('2d'),
+      clearCanvas: true,
+      preserveAspectRatio,
+      dpr: 1,
+    },
+  });
+
+  await new Promise<void>((resolve) => {
+    if (anim.isLoaded) resolve();
+    anim.addEventListener('DOMLoaded', () => resolve());
+  });
+};
+
+const render = async ({ frame, width, height }: Extract<WorkerRequest, { type: 'render' }>) => {
+  if (!canvas || !anim) throw new Error("Animation is not loaded");
+  if (canvas.width !== width || canvas.height !== height) anim.resize(width, height);
+  anim.goToAndStop(frame, true);
+  // A copy, not transferToImageBitmap(): lottie skips redrawing an unchanged frame,
+  // so the canvas has to keep its content
+  return createImageBitmap(canvas);
+};
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'load':
+        await load(request);
+        scope.postMessage({ type: 'loaded' });
+        break;
+      case 'render': {
+        const bitmap = await render(request);
+        scope.postMessage({ type: 'frame', id: request.id, bitmap }, [bitmap]);
+        break;
+      }
+      case 'destroy':
+        anim?.destroy();
+        anim = null;
+        canvas = null;
+        break;
+    }
+  } catch (err) {
+    scope.postMessage({
+      type: 'error',
+      id: request.type === 'render' ? request.id : undefined,
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+};
@@ -0,0 +1,343 @@
+import lottie, { AnimationItem } from 'lottie-web';
+import { FitMode, LottieFile, RendererKind } from '../types';
+import { getPreserveAspectRatio } from './sizing';
+import { detectFeatures } from './features';
+import { ensureAssetsReady } from './assets';
+import type { WorkerRequest, WorkerResponse } from './renderWorker';
+
+// A FrameRenderer turns a Lottie position into pixels.
+export interface FrameRenderer {
+  label: string;
+  // Requests worth keeping in flight at once (1 = strictly serial)
+  concurrency: number;
+  // Renders `lottieFrame` (relative to the in point) at width x height. The animation
+  // state is captured before the first await, so several calls may overlap; each
+  // result must be passed to releaseFrame() once drawn.
+  renderFrame: (lottieFrame: number, width: number, height: number) => Promise<CanvasImageSource>;
+  destroy: () => void;
+}
+
+export interface RendererOptions {
+  width: number;
+  height: number;
+  fit: FitMode;
+  // Parent for the hidden lottie containers (default: document.body)
+  container?: HTMLElement;
+}
+
+// Serialized SVG frames decoding at the same time
+const SVG_CONCURRENCY = 4;
+const MAX_RENDER_WORKERS = 4;
+
+export const RENDERER_LABELS: Record<RendererKind, string> = {
+  [RendererKind.AUTO]: 'Auto',
+  [RendererKind.SVG]: 'SVG',
+  [RendererKind.CANVAS]: 'Canvas',
+  [RendererKind.WORKER]: 'Worker',
+};
+
+export const releaseFrame = (image: CanvasImageSource) => {
+  if (image instanceof ImageBitmap) image.close();
+};
+
+export const isWorkerRendererSupported = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+// Picks the fastest backend that can draw everything the file uses
+export const pickRenderer = (animationData: LottieFile): { kind: RendererKind; reason: string } => {
+  const features = detectFeatures(animationData);
+
+  if (features.effects) return { kind: RendererKind.SVG, reason: 'the file uses layer effects' };
+  if (features.threeD) return { kind: RendererKind.SVG, reason: 'the file uses 3D layers' };
+  if (features.mergePaths) return { kind: RendererKind.SVG, reason: 'the file uses merge paths' };
+
+  if (features.images || features.text || features.lumaMattes) {
+    return { kind: RendererKind.CANVAS, reason: 'the file uses images, text or luma mattes' };
+  }
+  if (!isWorkerRendererSupported()) {
+    return { kind: RendererKind.CANVAS, reason: 'OffscreenCanvas is not available' };
+  }
+  return { kind: RendererKind.WORKER, reason: 'the file only uses canvas-compatible features' };
+};
+
+// Helper to load an image from a source URL/Blob
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = (e) => reject(e);
+    img.src = src;
+  });
+};
+
+// lottie-web needs its container attached to the DOM
+const createHiddenContainer = (width: number, height: number, parent: HTMLElement = document.body) => {
+  const container = document.createElement('div');
+  container.style.width = `${width}px`;
+  container.style.height = `${height}px`;
+  container.style.position = 'fixed';
+  container.style.left = '-9999px';
+  container.style.top = '0';
+  parent.appendChild(container);
+  return container;
+};
+
+const removeContainer = (container: HTMLElement) => {
+  container.remove();
+};
+
+const waitForLoad = (anim: AnimationItem) =>
+  new Promise((resolve) => {
+    if (anim.isLoaded) resolve(true);
+    anim.addEventListener('DOMLoaded', resolve);
+  });
+
+// DOMLoaded fires before images and web fonts have arrived, so wait for those too
+const waitForAssets = async (anim: AnimationItem, container: HTMLElement, animationData: LottieFile) => {
+  await waitForLoad(anim);
+  try {
+    await ensureAssetsReady(animationData);
+  } catch (err) {
+    anim.destroy();
+    removeContainer(container);
+    throw err;
+  }
+};
+
+// --- SVG (high fidelity: supports ALL Lottie/Jitter features, e.g. masks and gaussian blur) ---
+
+const createSvgRenderer = async (animationData: LottieFile, { width, height, fit, container: parent }: RendererOptions): Promise<FrameRenderer> => {
+  const container = createHiddenContainer(width, height, parent);
+  const anim = lottie.loadAnimation({
+    container,
+    renderer: 'svg',
+    loop: false,
+    autoplay: false,
+    animationData,
+    rendererSettings: {
+      preserveAspectRatio: getPreserveAspectRatio(fit),
+      // We do NOT use progressiveLoad to ensure frames are fully ready
+    },
+  });
+
+  await waitForAssets(anim, container, animationData);
+
+  const serializer = new XMLSerializer();
+
+  // Decodes the serialized SVG off the critical path; drawing a decoded bitmap is cheap
+  const rasterize = async (svgData: string): Promise<CanvasImageSource> => {
+    const svgBlob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' });
+    const url = URL.createObjectURL(svgBlob);
+    try {
+      const img = await loadImage(url);
+      try {
+        return await createImageBitmap(img);
+      } catch {
+        // Some browsers refuse SVG sources here; the <img> itself still draws fine
+        return img;
+      }
+    } finally {
+      // Cleanup memory immediately
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  return {
+    label: 'SVG',
+    concurrency: SVG_CONCURRENCY,
+    renderFrame: (lottieFrame, w, h) => {
+      anim.goToAndStop(lottieFrame, true);
+
+      const svgElement = container.querySelector('svg');
+      if (!svgElement) return Promise.reject(new Error("SVG element not found during render"));
+
+      // Force correct dimensions and Namespace on the SVG to prevent rendering issues
+      svgElement.setAttribute('width', `${w}px`);
+      svgElement.setAttribute('height', `${h}px`);
+
+      let svgData = serializer.serializeToString(svgElement);
+
+      // FIX: Ensure XML Namespace exists for Blob rendering
+      if (!svgData.includes('xmlns="http://www.w3.org/2000/svg"')) {
+        svgData = svgData.replace('<svg', '<svg xmlns="http://www.w3.org/2000/svg"');
+      }
+
+      return rasterize(svgData);
+    },
+    destroy: () => {
+      anim.destroy();
+      removeContainer(container);
+    },
+  };
+};
+
+// --- Canvas (lottie-web canvas renderer, main thread) ---
+
+const createCanvasRenderer = async (animationData: LottieFile, { width, height, fit, container: parent }: RendererOptions): Promise<FrameRenderer> => {
+  const container = createHiddenContainer(width, height, parent);
+  const anim = lottie.loadAnimation({
+    container,
+    renderer: 'canvas',
+    loop: false,
+    autoplay: false,
+    animationData,
+    rendererSettings: {
+      preserveAspectRatio: getPreserveAspectRatio(fit),
+      clearCanvas: true,
+      dpr: 1, // Render at output pixels, not screen pixels
+    },
+  });
+
+  await waitForAssets(anim, container, animationData);
+
+  const lottieCanvas = container.querySelector('canvas');
+  if (!lottieCanvas) {
+    anim.destroy();
+    removeContainer(container);
+    throw new Error("Canvas renderer did not create a canvas");
+  }
+  anim.resize(width, height);
+
+  return {
+    label: 'Canvas',
+    // One shared canvas: the frame must be drawn before the next one is rendered
+    concurrency: 1,
+    renderFrame: async (lottieFrame, w, h) => {
+      if (lottieCanvas.width !== w || lottieCanvas.height !== h) anim.resize(w, h);
+      anim.goToAndStop(lottieFrame, true);
+      return lottieCanvas;
+    },
+    destroy: () => {
+      anim.destroy();
+      removeContainer(container);
+    },
+  };
+};
+
+// --- Worker pool (canvas renderer on OffscreenCanvases, keeps the UI thread free) ---
+// Each worker holds its own copy of the animation, so frames render truly in parallel.
+
+interface RenderWorker {
+  pending: Map<number, { resolve: (bitmap: ImageBitmap) => void; reject: (err: Error) => void }>;
+  send: (request: WorkerRequest) => void;
+  terminate: () => void;
+}
+
+const spawnRenderWorker = async (animationData: LottieFile, width: number, height: number, fit: FitMode): Promise<RenderWorker> => {
+  const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+  const pending: RenderWorker['pending'] = new Map();
+
+  const send = (request: WorkerRequest) => worker.postMessage(request);
+
+  const loaded = new Promise<void>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'loaded') {
+        resolve();
+      } else if (response.type === 'frame') {
+        pending.get(response.id)?.resolve(response.bitmap);
+        pending.delete(response.id);
+      } else if (response.id !== undefined) {
+        pending.get(response.id)?.reject(new Error(response.message));
+        pending.delete(response.id);
+      } else {
+        reject(new Error(`Render worker failed: ${response.message}`));
+      }
+    };
+    worker.onerror = (event) => reject(new Error(`Render worker failed: ${event.message}`));
+  });
+
+  send({ type: 'load', animationData, width, height, preserveAspectRatio: getPreserveAspectRatio(fit) });
+  try {
+    await loaded;
+  } catch (err) {
+    worker.terminate();
+    throw err;
+  }
+
+  return {
+    pending,
+    send,
+    terminate: () => {
+      send({ type: 'destroy' });
+      worker.terminate();
+      for (const { reject } of pending.values()) reject(new Error("Renderer destroyed"));
+      pending.clear();
+    },
+  };
+};
+
+// Leave a core for the main thread (compositing + encoding)
+const getWorkerPoolSize = () =>
+  Math.max(1, Math.min(MAX_RENDER_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+
+const createWorkerRenderer = async (animationData: LottieFile, { width, height, fit }: RendererOptions): Promise<FrameRenderer> => {
+  const results = await Promise.allSettled(
+    Array.from({ length: getWorkerPoolSize() }, () => spawnRenderWorker(animationData, width, height, fit))
+  );
+  const workers = results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+  if (workers.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+  let nextId = 0;
+
+  return {
+    label: `Worker ×${workers.length}`,
+    // Two requests per worker so none of them idles while its last frame is in transit
+    concurrency: workers.length * 2,
+    renderFrame: (lottieFrame, w, h) => {
+      const id = nextId++;
+      // Least busy worker first
+      const worker = workers.reduce((best, candidate) => candidate.pending.size < best.pending.size ? candidate : best);
+      return new Promise<ImageBitmap>((resolve, reject) => {
+        worker.pending.set(id, { resolve, reject });
+        worker.send({ type: 'render', id, frame: lottieFrame, width: w, height: h });
+      });
+    },
+    destroy: () => {
+      for (const worker of workers) worker.terminate();
+    },
+  };
+};
+
+// The backend createRenderer settled on, and why (AUTO only)
+export interface RendererChoice {
+  renderer: FrameRenderer;
+  reason?: string;
+}
+
+export const createRenderer = async (
+  kind: RendererKind,
+  animationData: LottieFile,
+  options: RendererOptions
+): Promise<RendererChoice> => {
+  if (kind !== RendererKind.AUTO) return { renderer: await createRendererOfKind(kind, animationData, options) };
+
+  const pick = pickRenderer(animationData);
+  if (pick.kind !== RendererKind.WORKER) return { renderer: await createRendererOfKind(pick.kind, animationData, options), reason: pick.reason };
+
+  // Workers can fail to load lottie (e.g. import maps don't apply inside workers);
+  // the main-thread canvas renderer draws the same features
+  try {
+    return { renderer: await createWorkerRenderer(animationData, options), reason: pick.reason };
+  } catch (err) {
+    console.warn('Worker renderer unavailable, using the canvas renderer:', err);
+    return { renderer: await createCanvasRenderer(animationData, options), reason: 'the render workers failed to start' };
+  }
+};
+
+const createRendererOfKind = (
+  kind: RendererKind,
+  animationData: LottieFile,
+  options: RendererOptions
+): Promise<FrameRenderer> => {
+  switch (kind) {
+    case RendererKind.CANVAS:
+      return createCanvasRenderer(animationData, options);
+    case RendererKind.WORKER:
+      return createWorkerRenderer(animationData, options);
+    case RendererKind.SVG:
+    default:
+      return createSvgRenderer(animationData, options);
+  }
+};
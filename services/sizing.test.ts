@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { Resolution, SizingMode } from '../types';
+import { DEFAULT_SIZING, getDimensions } from './sizing';
+
+describe('getDimensions', () => {
+  it('scales matched sources to even edges', () => {
+    expect(getDimensions(Resolution.FHD, DEFAULT_SIZING, 1001, 500)).toEqual({ w: 2162, h: 1080 });
+  });
+
+  it('keeps the aspect ratio of extreme sources when capping the long edge', () => {
+    const { w, h } = getDimensions(Resolution.UHD, DEFAULT_SIZING, 10000, 1000);
+    expect(w).toBe(8192);
+    expect(h).toBe(818);
+    expect(w / h).toBeCloseTo(10, 1);
+  });
+
+  it('caps custom sizes proportionally', () => {
+    expect(getDimensions(Resolution.FHD, { ...DEFAULT_SIZING, mode: SizingMode.CUSTOM, customWidth: 16384, customHeight: 4096 }, 0, 0))
+      .toEqual({ w: 8192, h: 2048 });
+  });
+});
@@ -0,0 +1,87 @@
+import { FitMode, Resolution, SizingMode, SizingOptions } from '../types';
+
+export const DEFAULT_SIZING: SizingOptions = {
+  mode: SizingMode.MATCH_SOURCE,
+  matchEdge: 'short',
+  customWidth: 1080,
+  customHeight: 1080,
+  fit: FitMode.FIT,
+};
+
+// Short edge / long edge of each resolution tier (1080p = 1920x1080)
+const TIER_EDGES: Record<Resolution, { short: number; long: number }> = {
+  [Resolution.HD]: { short: 720, long: 1280 },
+  [Resolution.FHD]: { short: 1080, long: 1920 },
+  [Resolution.UHD]: { short: 2160, long: 3840 },
+};
+
+// Width:height of each fixed-aspect preset
+const PRESET_RATIOS: Partial<Record<SizingMode, [number, number]>> = {
+  [SizingMode.LANDSCAPE]: [16, 9],
+  [SizingMode.SQUARE]: [1, 1],
+  [SizingMode.PORTRAIT]: [4, 5],
+  [SizingMode.VERTICAL]: [9, 16],
+};
+
+const MIN_EDGE = 16;
+const MAX_EDGE = 8192;
+
+// Ensure dimensions are even numbers (required by many codecs)
+const toEven = (n: number) => {
+  const clamped = Math.min(MAX_EDGE, Math.max(MIN_EDGE, Math.round(n)));
+  return clamped % 2 === 0 ? clamped : clamped - 1;
+};
+
+// Both edges shrink by the same factor when the long one exceeds MAX_EDGE, so extreme
+// aspect ratios (e.g. a 10:1 banner at 4K) keep their shape
+const toEvenSize = (w: number, h: number) => {
+  const scale = Math.min(1, MAX_EDGE / Math.max(w, h));
+  return { w: toEven(w * scale), h: toEven(h * scale) };
+};
+
+// Scales a ratio so that its short edge equals `shortEdge`
+const fromRatio = (ratioW: number, ratioH: number, shortEdge: number) => {
+  const scale = shortEdge / Math.min(ratioW, ratioH);
+  return toEvenSize(ratioW * scale, ratioH * scale);
+};
+
+export const getDimensions = (
+  res: Resolution,
+  sizing: SizingOptions,
+  originalW: number,
+  originalH: number
+) => {
+  const tier = TIER_EDGES[res];
+
+  switch (sizing.mode) {
+    case SizingMode.CUSTOM:
+      return toEvenSize(sizing.customWidth, sizing.customHeight);
+
+    case SizingMode.MATCH_SOURCE: {
+      if (!(originalW > 0) || !(originalH > 0)) return fromRatio(16, 9, tier.short);
+
+      const sourceShort = Math.min(originalW, originalH);
+      const sourceLong = Math.max(originalW, originalH);
+      const scale = sizing.matchEdge === 'long' ? tier.long / sourceLong : tier.short / sourceShort;
+      return toEvenSize(originalW * scale, originalH * scale);
+    }
+
+    default: {
+      const [ratioW, ratioH] = PRESET_RATIOS[sizing.mode] ?? [16, 9];
+      return fromRatio(ratioW, ratioH, tier.short);
+    }
+  }
+};
+
+// Maps the fit mode onto lottie's rendererSettings.preserveAspectRatio (SVG semantics)
+export const getPreserveAspectRatio = (fit: FitMode) => {
+  switch (fit) {
+    case FitMode.FILL:
+      return 'xMidYMid slice';
+    case FitMode.STRETCH:
+      return 'none';
+    case FitMode.FIT:
+    default:
+      return 'xMidYMid meet';
+  }
+};
@@ -0,0 +1,64 @@
+// Sprite sheet layout and metadata. The JSON follows TexturePacker's "JSON (Hash)"
+// format, which Phaser, PixiJS and most game engines load directly.
+
+// Largest canvas edge browsers reliably allocate (and most GPUs accept as a texture)
+export const MAX_ATLAS_EDGE = 16384;
+
+export interface AtlasLayout {
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+}
+
+export const getAtlasLayout = (count: number, frameWidth: number, frameHeight: number, columns: number | null): AtlasLayout => {
+  const cols = Math.max(1, Math.min(count, Math.round(columns ?? Math.ceil(Math.sqrt(count)))));
+  const rows = Math.ceil(count / cols);
+  return { columns: cols, rows, width: cols * frameWidth, height: rows * frameHeight };
+};
+
+export const getAtlasError = (layout: AtlasLayout) =>
+  layout.width > MAX_ATLAS_EDGE || layout.height > MAX_ATLAS_EDGE
+    ? `The sprite sheet would be ${layout.width}x${layout.height}px, over the ${MAX_ATLAS_EDGE}px limit. Lower the resolution, the frame rate or the range.`
+    : null;
+
+export const getFramePosition = (index: number, layout: AtlasLayout, frameWidth: number, frameHeight: number) => ({
+  x: (index % layout.columns) * frameWidth,
+  y: Math.floor(index / layout.columns) * frameHeight,
+});
+
+export const createAtlasMetadata = (
+  durations: number[], // Milliseconds per frame
+  layout: AtlasLayout,
+  frameWidth: number,
+  frameHeight: number,
+  imageName: string,
+  fps: number
+) => {
+  const frames: Record<string, unknown> = {};
+  durations.forEach((duration, index) => {
+    const { x, y } = getFramePosition(index, layout, frameWidth, frameHeight);
+    frames[`frame_${String(index).padStart(5, '0')}`] = {
+      frame: { x, y, w: frameWidth, h: frameHeight },
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: frameWidth, h: frameHeight },
+      sourceSize: { w: frameWidth, h: frameHeight },
+      duration,
+    };
+  });
+
+  return {
+    frames,
+    meta: {
+      app: 'Lottie2MP4 Pro',
+      image: imageName,
+      format: 'RGBA8888',
+      size: { w: layout.width, h: layout.height },
+      scale: '1',
+      frameRate: fps,
+      columns: layout.columns,
+      rows: layout.rows,
+    },
+  };
+};
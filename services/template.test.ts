@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { OutputFormat } from '../types';
+import { DEFAULT_OPTIONS } from './options';
+import { formatOutputName, getDatasetColumns, parseDataset } from './template';
+
+describe('parseDataset (CSV)', () => {
+  it('keeps delimiters, newlines and doubled quotes inside quoted fields', () => {
+    const csv = 'name,quote\r\n"Smith, Jane","She said ""hi""\r\nand left"\r\nBob,plain\r\n';
+    expect(parseDataset(csv, 'people.csv')).toEqual([
+      { name: 'Smith, Jane', quote: 'She said "hi"\r\nand left' },
+      { name: 'Bob', quote: 'plain' },
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    expect(parseDataset('city;price\nParis;"1,50"\n', 'prices.csv')).toEqual([{ city: 'Paris', price: '1,50' }]);
+    expect(parseDataset('city\tprice\nOslo\t2\n', 'prices.tsv')).toEqual([{ city: 'Oslo', price: '2' }]);
+  });
+
+  it('reads a last row without a trailing newline', () => {
+    expect(parseDataset('a,b\n1,2\n3,4', 'rows.csv')).toEqual([{ a: '1', b: '2' }, { a: '3', b: '4' }]);
+  });
+
+  it('strips the BOM, trims headers and skips blank lines', () => {
+    const dataset = parseDataset('\uFEFF title , colour\n\nHello,#fff\n,\n', 'rows.csv');
+    expect(dataset).toEqual([{ title: 'Hello', colour: '#fff' }]);
+    expect(getDatasetColumns(dataset)).toEqual(['title', 'colour']);
+  });
+
+  it('fills missing cells with empty strings', () => {
+    expect(parseDataset('a,b,c\n1\n', 'rows.csv')).toEqual([{ a: '1', b: '', c: '' }]);
+  });
+
+  it('needs a header and at least one row', () => {
+    expect(() => parseDataset('a,b\n', 'rows.csv')).toThrow(/header row/);
+  });
+});
+
+describe('parseDataset (JSON)', () => {
+  it('stringifies non-string values', () => {
+    expect(parseDataset('[{"title":"Hi","count":3,"on":true}]', 'rows.json')).toEqual([{ title: 'Hi', count: '3', on: 'true' }]);
+  });
+
+  it('rejects anything but an array of objects', () => {
+    expect(() => parseDataset('{"title":"Hi"}', 'rows.json')).toThrow(/array of objects/);
+    expect(() => parseDataset('[1, 2]', 'rows.json')).toThrow(/array of objects/);
+    expect(() => parseDataset('[{', 'rows.json')).toThrow(/not valid JSON/);
+  });
+});
+
+describe('formatOutputName', () => {
+  const options = { ...DEFAULT_OPTIONS, format: OutputFormat.MP4 };
+  const row = (pattern: string, values: Record<string, string> = {}) => ({ values, index: 7, pattern });
+
+  it('fills columns and built-in tokens', () => {
+    expect(formatOutputName('promo', row('{template}_{city}_{index}', { city: 'Paris' }), options)).toBe('promo_Paris_7.mp4');
+  });
+
+  it('prefers a column over the built-in token of the same name', () => {
+    expect(formatOutputName('promo', row('{index}', { index: 'first' }), options)).toBe('first.mp4');
+  });
+
+  it('drops a known extension typed into the pattern', () => {
+    expect(formatOutputName('promo', row('{city}.mp4', { city: 'Oslo' }), options)).toBe('Oslo.mp4');
+    expect(formatOutputName('promo', row('{city}.gif', { city: 'Oslo' }), options)).toBe('Oslo.mp4');
+    expect(formatOutputName('promo', row('{city}.v2', { city: 'Oslo' }), options)).toBe('Oslo.v2.mp4');
+  });
+
+  it('sanitizes characters file systems refuse', () => {
+    expect(formatOutputName('promo', row('{title}', { title: 'a/b: "c"?' }), options)).toBe('a_b_ _c__.mp4');
+  });
+
+  it('falls back to template and index for an empty name', () => {
+    expect(formatOutputName('promo', row('{title}', { title: '  ' }), options)).toBe('promo_7.mp4');
+  });
+
+  it('leaves unknown tokens as they are', () => {
+    expect(formatOutputName('promo', row('{missing}'), options)).toBe('{missing}.mp4');
+  });
+});
@@ -0,0 +1,213 @@
+import { ConvertOptions, LottieFile, OutputFormat, TemplateRow } from '../types';
+import { applyOverrides, Editables, listEditables, PropertyOverrides } from './overrides';
+import { getFileExtension, getOutputFps } from './encoders';
+
+// Data-driven rendering: one output per dataset row. Placeholders are `{field}` tokens
+// inside text layers, or layers named `{field}` (whole text, colour or image).
+
+export type Dataset = Record<string, string>[];
+
+export interface TemplateField {
+  name: string;
+  uses: string[]; // e.g. 'Text in "Title"', 'Colour of "Logo"'
+}
+
+// Built-in file name tokens; dataset columns of the same name take precedence
+export const PATTERN_TOKENS = ['template', 'index', 'resolution', 'fps', 'format'];
+
+export const DEFAULT_NAME_PATTERN = '{template}_{index}';
+
+const TOKEN = /\{([^{}]+)\}/g;
+
+const getLayerField = (layerName: string) => layerName.match(/^\{([^{}]+)\}$/)?.[1].trim() ?? null;
+
+// #rgb or #rrggbb, returned as #rrggbb
+const parseColor = (value: string) => {
+  const hex = value.trim().toLowerCase();
+  if (/^#[0-9a-f]{6}$/.test(hex)) return hex;
+  if (/^#[0-9a-f]{3}$/.test(hex)) return '#' + [...hex.slice(1)].map((c) => c + c).join('');
+  return null;
+};
+
+export const findTemplateFields = (editables: Editables): TemplateField[] => {
+  const fields = new Map<string, string[]>();
+  const use = (name: string, description: string) => {
+    const uses = fields.get(name) ?? [];
+    if (!uses.includes(description)) uses.push(description);
+    fields.set(name, uses);
+  };
+
+  for (const text of editables.texts) {
+    const field = getLayerField(text.layer);
+    if (field) use(field, `Text of "${text.layer}"`);
+    else for (const [, name] of text.text.matchAll(TOKEN)) use(name.trim(), `Text in "${text.layer}"`);
+  }
+  for (const color of editables.colors) {
+    const field = getLayerField(color.layer);
+    if (field && color.kind !== 'text') use(field, `Colour of "${color.layer}"`);
+  }
+  for (const image of editables.images) {
+    for (const layer of image.layers) {
+      const field = getLayerField(layer);
+      if (field) use(field, `Image of "${layer}"`);
+    }
+  }
+  return [...fields.entries()].map(([name, uses]) => ({ name, uses }));
+};
+
+// The overrides one row stands for. Cells that don't fit (a colour layer given
+// something other than a hex colour) leave the property as it is.
+export const getRowOverrides = (editables: Editables, row: Record<string, string>): PropertyOverrides => {
+  const overrides: PropertyOverrides = { colors: {}, texts: {}, images: {}, palette: {} };
+
+  for (const text of editables.texts) {
+    const field = getLayerField(text.layer);
+    if (field) {
+      if (row[field] !== undefined) overrides.texts[text.id] = row[field];
+    } else if (text.text.match(TOKEN)) {
+      overrides.texts[text.id] = text.text.replace(TOKEN, (token, name) => row[name.trim()] ?? token);
+    }
+  }
+  for (const color of editables.colors) {
+    const field = getLayerField(color.layer);
+    const value = field && color.kind !== 'text' && row[field] !== undefined ? parseColor(row[field]) : null;
+    if (value) overrides.colors[color.id] = value;
+  }
+  for (const image of editables.images) {
+    const field = image.layers.map(getLayerField).find((name) => name && row[name]);
+    if (field) overrides.images[image.id] = row[field].trim();
+  }
+  return overrides;
+};
+
+const blobToDataUri = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// The SVG renderer rasterizes a serialized SVG through an <img>, which can't load
+// external URLs, so image cells are fetched and embedded before rendering
+const toImageDataUri = async (value: string) => {
+  if (value.startsWith('data:')) return value;
+  let response: Response;
+  try {
+    response = await fetch(value);
+  } catch {
+    throw new Error(`Image "${value}" could not be fetched.`);
+  }
+  if (!response.ok) throw new Error(`Image "${value}" could not be fetched (HTTP ${response.status}).`);
+  const blob = await response.blob();
+  if (!blob.type.startsWith('image/')) throw new Error(`"${value}" is not an image (${blob.type || 'unknown type'}).`);
+  return blobToDataUri(blob);
+};
+
+export const applyTemplateRow = async (template: LottieFile, row: Record<string, string>): Promise<LottieFile> => {
+  const overrides = getRowOverrides(listEditables(template), row);
+  for (const [id, value] of Object.entries(overrides.images)) {
+    overrides.images[id] = await toImageDataUri(value);
+  }
+  return applyOverrides(template, overrides);
+};
+
+// --- Datasets ---
+
+// Picks whichever delimiter splits the header line into the most columns
+const detectDelimiter = (headerLine: string) =>
+  [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+// RFC 4180: quoted fields may contain delimiters, newlines and doubled quotes
+const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0]);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+export const parseDataset = (text: string, fileName: string): Dataset => {
+  if (/\.json$/i.test(fileName)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error(`${fileName} is not valid JSON.`);
+    }
+    if (!Array.isArray(parsed) || !parsed.every((row) => row && typeof row === 'object' && !Array.isArray(row))) {
+      throw new Error("A JSON dataset must be an array of objects, one per output.");
+    }
+    return parsed.map((row) =>
+      Object.fromEntries(Object.entries(row).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]))
+    );
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header || rows.length === 0) throw new Error("The CSV needs a header row and at least one data row.");
+  const columns = header.map((column) => column.trim());
+  return rows.map((cells) => Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ''])));
+};
+
+export const getDatasetColumns = (dataset: Dataset) => [...new Set(dataset.flatMap((row) => Object.keys(row)))];
+
+// --- Output names ---
+
+const KNOWN_EXTENSIONS = new Set(Object.values(OutputFormat).map(getFileExtension));
+
+// Characters Windows / macOS / Linux refuse in file names
+const sanitizeFileName = (name: string) => name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').trim();
+
+// Fills `{column}` and built-in tokens. The extension always follows the output
+// format, so one typed into the pattern ("{name}.mp4") is dropped.
+export const formatOutputName = (templateName: string, row: TemplateRow, options: ConvertOptions) => {
+  const builtIns: Record<string, string> = {
+    template: templateName,
+    index: String(row.index),
+    resolution: options.resolution,
+    fps: String(getOutputFps(options.format, options.fps, options.animated)),
+    format: options.format,
+  };
+  const extension = row.pattern.match(/\.(\w+)$/)?.[1].toLowerCase();
+  const pattern = extension && KNOWN_EXTENSIONS.has(extension) ? row.pattern.slice(0, -extension.length - 1) : row.pattern;
+  const name = sanitizeFileName(
+    pattern.replace(TOKEN, (token, key) => row.values[key.trim()] ?? builtIns[key.trim()] ?? token)
+  );
+  return `${name || `${templateName}_${row.index}`}.${getFileExtension(options.format)}`;
+};
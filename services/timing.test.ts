@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { LottieFile } from '../types';
+import { createTimeline, DEFAULT_RANGE } from './range';
+import {
+  createFrameSchedule,
+  createStillFrame,
+  DEFAULT_TIMING,
+  getDurationMicroseconds,
+  getFrameDelay,
+  getFrameSamples,
+  MICROSECONDS_PER_SECOND,
+} from './timing';
+
+const animation = (fr: number, ip: number, op: number): LottieFile => ({
+  v: '5.7.0', fr, ip, op, w: 100, h: 100, nm: 'test', layers: [], assets: [],
+});
+
+describe('createFrameSchedule', () => {
+  it.each([
+    { name: '24 -> 60', fr: 24, ip: 0, op: 49, fps: 60 },
+    { name: '29.97 -> 30', fr: 29.97, ip: 0, op: 100, fps: 30 },
+    { name: '25 -> 24', fr: 25, ip: 3, op: 64, fps: 24 },
+  ])('ends exactly at (op - ip) / fr for $name', ({ fr, ip, op, fps }) => {
+    const { durationSeconds } = createTimeline(DEFAULT_RANGE, animation(fr, ip, op));
+    const schedule = createFrameSchedule(durationSeconds, fps);
+    const last = schedule[schedule.length - 1];
+
+    expect(getDurationMicroseconds(durationSeconds)).toBe(Math.round(((op - ip) / fr) * MICROSECONDS_PER_SECOND));
+    expect(last.timestamp + last.duration).toBe(getDurationMicroseconds(durationSeconds));
+  });
+
+  it('has contiguous frames without gaps or overlaps', () => {
+    const schedule = createFrameSchedule(49 / 24, 60);
+    expect(schedule[0].timestamp).toBe(0);
+    for (let i = 1; i < schedule.length; i++) {
+      expect(schedule[i].timestamp).toBe(schedule[i - 1].timestamp + schedule[i - 1].duration);
+      expect(schedule[i].index).toBe(i);
+    }
+  });
+
+  it('does not add a frame for float noise at the end', () => {
+    expect(createFrameSchedule(1 / 30, 60)).toHaveLength(2);
+  });
+});
+
+describe('createStillFrame', () => {
+  it('clamps the position inside the timeline', () => {
+    expect(createStillFrame(-1, 2, 30).timestamp).toBe(0);
+    expect(createStillFrame(5, 2, 30).timestamp).toBe(2 * MICROSECONDS_PER_SECOND - 1);
+    expect(createStillFrame(0.5, 2, 30)).toEqual({ index: 0, timestamp: 500_000, duration: 33_333 });
+  });
+});
+
+describe('getFrameSamples', () => {
+  const timeline = createTimeline(DEFAULT_RANGE, animation(24, 0, 48));
+  const frame = { index: 1, timestamp: Math.round(MICROSECONDS_PER_SECOND / 60), duration: 16_667 };
+  const totalWeight = (samples: { weight: number }[]) => samples.reduce((sum, sample) => sum + sample.weight, 0);
+
+  it('samples the exact position once', () => {
+    const samples = getFrameSamples(frame, timeline, DEFAULT_TIMING);
+    expect(samples).toHaveLength(1);
+    expect(samples[0].weight).toBe(1);
+    expect(samples[0].lottieFrame).toBeCloseTo(0.4, 4);
+  });
+
+  it('cross-fades the neighbouring source frames when blending', () => {
+    const samples = getFrameSamples(frame, timeline, { ...DEFAULT_TIMING, mode: 'frame-blend' });
+    expect(samples.map((sample) => sample.lottieFrame)).toEqual([0, 1]);
+    expect(samples[0].weight).toBeCloseTo(0.6, 4);
+    expect(samples[1].weight).toBeCloseTo(0.4, 4);
+  });
+
+  it('uses one sample on a whole source frame when blending', () => {
+    const onFrame = { index: 0, timestamp: 0, duration: 16_667 };
+    expect(getFrameSamples(onFrame, timeline, { ...DEFAULT_TIMING, mode: 'frame-blend' })).toEqual([
+      { lottieFrame: 0, time: 0, weight: 1 },
+    ]);
+  });
+
+  it('spreads equal motion blur weights across the shutter', () => {
+    const samples = getFrameSamples(frame, timeline, { mode: 'motion-blur', samples: 4, shutter: 0.5 });
+    expect(samples).toHaveLength(4);
+    expect(totalWeight(samples)).toBeCloseTo(1, 10);
+    samples.forEach((sample) => expect(sample.weight).toBe(0.25));
+    expect(samples[3].time - samples[0].time).toBeCloseTo((0.016667 * 0.5 * 3) / 4, 6);
+  });
+});
+
+describe('getFrameDelay', () => {
+  it('rounds on the absolute timeline so the delays add up', () => {
+    const schedule = createFrameSchedule(1, 30);
+    const delays = schedule.map((frame) => getFrameDelay(frame, 100));
+    expect(delays.reduce((sum, delay) => sum + delay, 0)).toBe(100);
+    expect(new Set(delays)).toEqual(new Set([3, 4]));
+  });
+
+  it('converts to milliseconds', () => {
+    expect(getFrameDelay({ index: 0, timestamp: 0, duration: 41_667 }, 1000)).toBe(42);
+  });
+});
@@ -0,0 +1,95 @@
+import { TimingOptions } from '../types';
+import { Timeline } from './range';
+
+// All output timing is kept in integer microseconds (the WebCodecs / container unit)
+// so rounding never accumulates: frame i starts at round(i * 1e6 / fps) and the last
+// frame is shortened so the frames add up to exactly the source duration.
+
+export const MICROSECONDS_PER_SECOND = 1_000_000;
+
+export interface OutputFrame {
+  index: number;
+  timestamp: number; // Microseconds
+  duration: number;  // Microseconds
+}
+
+export const DEFAULT_TIMING: TimingOptions = {
+  mode: 'exact',
+  samples: 8,
+  shutter: 0.5,
+};
+
+// Duration of a Lottie segment: (op - ip) / fr, in whole microseconds
+export const getDurationMicroseconds = (durationSeconds: number) =>
+  Math.round(durationSeconds * MICROSECONDS_PER_SECOND);
+
+export const createFrameSchedule = (durationSeconds: number, fps: number): OutputFrame[] => {
+  const total = getDurationMicroseconds(durationSeconds);
+  const startOf = (i: number) => Math.round((i * MICROSECONDS_PER_SECOND) / fps);
+
+  // Every frame that starts before the end; the tiny tolerance absorbs float noise
+  // such as 2.0000000001 frames for a 1/30 s clip at 60fps
+  const count = Math.max(1, Math.ceil((total * fps) / MICROSECONDS_PER_SECOND - 1e-6));
+
+  return Array.from({ length: count }, (_, index) => {
+    const timestamp = startOf(index);
+    const end = index === count - 1 ? total : startOf(index + 1);
+    return { index, timestamp, duration: end - timestamp };
+  });
+};
+
+// The one frame of a still export, `seconds` into the timeline (clamped inside it)
+export const createStillFrame = (seconds: number, durationSeconds: number, fps: number): OutputFrame => {
+  const total = getDurationMicroseconds(durationSeconds);
+  const timestamp = Math.min(Math.max(0, Math.round(seconds * MICROSECONDS_PER_SECOND)), Math.max(0, total - 1));
+  return { index: 0, timestamp, duration: Math.round(MICROSECONDS_PER_SECOND / fps) };
+};
+
+// Frame duration in a coarser time unit (GIF centiseconds, WebP milliseconds), rounded
+// on the absolute timeline so the per-frame rounding errors cancel out
+export const getFrameDelay = (frame: OutputFrame, unitsPerSecond: number) => {
+  const toUnits = (micros: number) => Math.round((micros * unitsPerSecond) / MICROSECONDS_PER_SECOND);
+  return toUnits(frame.timestamp + frame.duration) - toUnits(frame.timestamp);
+};
+
+export interface FrameSample {
+  lottieFrame: number; // Relative to the in point, as goToAndStop(frame, true) expects
+  time: number;        // Output seconds (drives video backgrounds)
+  weight: number;
+}
+
+// Lottie positions that make up one output frame, with their blend weights:
+//  - exact:        the precise (sub-frame) position
+//  - frame-blend:  cross-fade of the two neighbouring source frames, like conforming footage
+//  - motion-blur:  `samples` evenly spaced positions across the shutter interval
+export const getFrameSamples = (
+  frame: OutputFrame,
+  timeline: Timeline,
+  timing: TimingOptions
+): FrameSample[] => {
+  const time = frame.timestamp / MICROSECONDS_PER_SECOND;
+
+  if (timing.mode === 'frame-blend') {
+    const position = timeline.frameAt(time);
+    const lower = Math.floor(position);
+    const fraction = position - lower;
+    if (fraction < 1e-6 || lower + 1 >= timeline.endFrame) {
+      return [{ lottieFrame: lower, time, weight: 1 }];
+    }
+    return [
+      { lottieFrame: lower, time, weight: 1 - fraction },
+      { lottieFrame: lower + 1, time, weight: fraction },
+    ];
+  }
+
+  if (timing.mode === 'motion-blur' && timing.samples > 1) {
+    const samples = Math.round(timing.samples);
+    const shutterSeconds = (frame.duration / MICROSECONDS_PER_SECOND) * Math.min(1, Math.max(0, timing.shutter));
+    return Array.from({ length: samples }, (_, k) => {
+      const sampleTime = time + (shutterSeconds * k) / samples;
+      return { lottieFrame: timeline.frameAt(sampleTime), time: sampleTime, weight: 1 / samples };
+    });
+  }
+
+  return [{ lottieFrame: timeline.frameAt(time), time, weight: 1 }];
+};
@@ -0,0 +1,90 @@
+// Assembles still WebP images (as produced by canvas.toBlob) into an animated WebP.
+// Container layout: RIFF/WEBP > VP8X > ANIM > ANMF* (each ANMF wraps one frame's bitstream).
+// See https://developers.google.com/speed/webp/docs/riff_container
+
+export interface WebpFrame {
+  data: Uint8Array;  // A complete still .webp file
+  duration: number;  // Milliseconds
+}
+
+const fourCC = (tag: string) => new TextEncoder().encode(tag);
+
+const uint24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+
+const uint32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// RIFF chunks are padded to an even size
+const chunk = (tag: string, payload: Uint8Array) => {
+  const padding = payload.length % 2 === 1 ? new Uint8Array(1) : new Uint8Array(0);
+  return concat([fourCC(tag), new Uint8Array(uint32(payload.length)), payload, padding]);
+};
+
+// Returns the image-data chunks (ALPH / VP8 / VP8L) of a still WebP, dropping its VP8X header
+const extractImageChunks = (webp: Uint8Array) => {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const decoder = new TextDecoder();
+
+  if (decoder.decode(webp.subarray(0, 4)) !== 'RIFF' || decoder.decode(webp.subarray(8, 12)) !== 'WEBP') {
+    throw new Error("Browser did not produce a valid WebP frame. Animated WebP needs Chrome or Edge.");
+  }
+
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const tag = decoder.decode(webp.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (tag === 'ALPH' || tag === 'VP8 ' || tag === 'VP8L') {
+      chunks.push(webp.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  if (chunks.length === 0) throw new Error("WebP frame contains no image data");
+  return { data: concat(chunks), hasAlpha: chunks.some((c) => decoder.decode(c.subarray(0, 4)) !== 'VP8 ') };
+};
+
+export const muxAnimatedWebp = (
+  frames: WebpFrame[],
+  width: number,
+  height: number,
+  loopCount: number // 0 = forever
+): Uint8Array => {
+  const parsed = frames.map((frame) => ({ ...extractImageChunks(frame.data), duration: frame.duration }));
+  const hasAlpha = parsed.some((f) => f.hasAlpha);
+
+  const vp8x = chunk('VP8X', new Uint8Array([
+    0x02 | (hasAlpha ? 0x10 : 0), 0, 0, 0, // Animation (+ alpha) flags, reserved
+    ...uint24(width - 1),
+    ...uint24(height - 1),
+  ]));
+
+  const anim = chunk('ANIM', new Uint8Array([
+    0, 0, 0, 0, // Background colour (BGRA), ignored by most players
+    loopCount & 0xff, (loopCount >> 8) & 0xff,
+  ]));
+
+  const anmfs = parsed.map((frame) => chunk('ANMF', concat([
+    new Uint8Array([
+      ...uint24(0), ...uint24(0), // Frame offset (x/2, y/2)
+      ...uint24(width - 1),
+      ...uint24(height - 1),
+      ...uint24(Math.max(1, frame.duration)),
+      0x02, // Do not blend, do not dispose: every frame is a full opaque replacement
+    ]),
+    frame.data,
+  ])));
+
+  const body = concat([fourCC('WEBP'), vp8x, anim, ...anmfs]);
+  return concat([fourCC('RIFF'), new Uint8Array(uint32(body.length)), body]);
+};
@@ -0,0 +1,31 @@
+// Minimal `document` stand-in so lottie-web can load inside a Web Worker.
+// Setting `_isProxy` makes lottie skip the features that would need a real DOM
+// canvas (luma mattes); images and text are steered away from the worker
+// backend by the renderer auto-pick.
+
+const scope = self as unknown as { document?: unknown };
+
+const createStubElement = (): any => ({
+  style: {},
+  children: [],
+  setAttribute: () => {},
+  setAttributeNS: () => {},
+  appendChild: () => {},
+  insertBefore: () => {},
+  removeChild: () => {},
+  addEventListener: () => {},
+  removeEventListener: () => {},
+});
+
+if (!scope.document) {
+  scope.document = {
+    _isProxy: true,
+    readyState: 'complete',
+    body: createStubElement(),
+    createElement: (type: string) => (type === 'canvas' ? new OffscreenCanvas(1, 1) : createStubElement()),
+    createElementNS: () => createStubElement(),
+    getElementsByTagName: () => [],
+    getElementsByClassName: () => [],
+    querySelectorAll: () => [],
+  };
+}
@@ -1,3 +1,18 @@
+export interface LottieMarker {
+  tm: number;  // Start, in absolute frames
+  cm: string;  // Name (some exporters store a JSON object with a "name" key)
+  dr: number;  // Duration in frames
+}
+
+export interface LottieFont {
+  fName: string;    // Name text layers refer to
+  fFamily: string;  // CSS font-family
+  fStyle: string;   // e.g. "Bold Italic"
+  fWeight?: string;
+  fPath?: string;   // Stylesheet / font URL for web fonts
+  origin?: number;  // 0 local, 1 Google CSS, 2 font file, 3 CSS URL
+}
+
 export interface LottieFile {
   v: string;
   fr: number;
@@ -8,6 +23,11 @@ export interface LottieFile {
   nm: string;
   layers: any[];
   assets: any[];
+  markers?: LottieMarker[];
+  ddd?: number;  // 1 = contains 3D layers
+  fonts?: { list: LottieFont[] };
+  chars?: { fFamily: string }[]; // Glyphs baked in as shapes (no font loading needed)
+  slots?: Record<string, { p: any }>; // Values properties refer to by `sid`, overridden by themes
 }
 
 export enum Resolution {
@@ -22,19 +42,199 @@ export enum FrameRate {
   FPS_120 = 120
 }
 
+export enum RendererKind {
+  AUTO = 'auto',     // Picked from the features the file uses
+  SVG = 'svg',       // Highest fidelity (effects, 3D), slowest
+  CANVAS = 'canvas', // lottie-web canvas renderer on the main thread
+  WORKER = 'worker'  // Canvas renderer in a Web Worker on an OffscreenCanvas
+}
+
+export enum SizingMode {
+  MATCH_SOURCE = 'source',  // Keep the Lottie's aspect ratio
+  LANDSCAPE = '16:9',
+  SQUARE = '1:1',
+  PORTRAIT = '4:5',
+  VERTICAL = '9:16',
+  CUSTOM = 'custom'
+}
+
+export enum FitMode {
+  FIT = 'fit',        // Letterbox, whole animation visible
+  FILL = 'fill',      // Crop to cover the frame
+  STRETCH = 'stretch' // Distort to the frame
+}
+
+export interface SizingOptions {
+  mode: SizingMode;
+  matchEdge: 'short' | 'long'; // Which edge gets the resolution tier in MATCH_SOURCE mode
+  customWidth: number;
+  customHeight: number;
+  fit: FitMode;
+}
+
+export enum OutputFormat {
+  MP4 = 'mp4',               // Opaque, H.264 / HEVC / VP9 / AV1
+  WEBM = 'webm',             // Opaque, VP9 / AV1
+  WEBM_ALPHA = 'webm-alpha', // VP9 with alpha channel
+  PNG_SEQUENCE = 'png-zip',  // Lossless RGBA frames in a ZIP archive
+  GIF = 'gif',               // 256-colour palette, plays everywhere
+  WEBP = 'webp',             // Animated WebP, lossy, full colour
+  STILL_PNG = 'png',         // Single frame (poster / thumbnail), lossless RGBA
+  STILL_JPEG = 'jpeg',       // Single frame, opaque
+  STILL_WEBP = 'still-webp', // Single frame, lossy with alpha
+  SPRITE_SHEET = 'sprite'    // Grid atlas PNG + JSON frame metadata, in a ZIP
+}
+
+// Values match the codec identifiers used by mp4-muxer and mediabunny
+export enum Codec {
+  H264 = 'avc',
+  HEVC = 'hevc',
+  VP9 = 'vp9',
+  AV1 = 'av1'
+}
+
+// Values match the audio codec identifiers used by mp4-muxer
+export enum AudioCodec {
+  AAC = 'aac',
+  OPUS = 'opus'
+}
+
+export type BitrateMode = 'constant' | 'variable' | 'quantizer';
+
+export interface EncodingOptions {
+  bitrateMode: BitrateMode;
+  bitrate: number | null;      // Bits per second; null picks one from the output size
+  quantizer: number;           // Quantizer mode only; lower is better (H.264/HEVC 0-51, VP9/AV1 0-63)
+  keyframeInterval: number;    // Seconds between keyframes (GOP length)
+  latencyMode: LatencyMode;
+  hardwareAcceleration: HardwareAcceleration;
+}
+
+// Settings for the animated image formats (GIF / WebP)
+export interface AnimatedImageOptions {
+  fps: number;             // Output frame rate (also used by sprite sheets); frames are dropped from the render rate to hit it
+  loopCount: number;       // Number of plays, 0 = loop forever
+  maxColors: number;       // GIF palette size per frame (2-256)
+  dither: boolean;         // GIF Floyd-Steinberg dithering
+  quality: number;         // WebP quality, 0-1
+  maxBytes: number | null; // Size budget; the output is downscaled until it fits
+}
+
+// Settings for the still image and sprite sheet exports
+export interface ImageExportOptions {
+  at: number;               // Still: position in `unit`, counted from the start of the range
+  unit: 'frames' | 'seconds';
+  quality: number;          // JPEG / WebP stills, 0-1
+  columns: number | null;   // Sprite sheet grid width; null = as square as possible
+}
+
+// Soundtrack muxed next to the video (MP4 / WebM only)
+export interface AudioOptions {
+  file?: File;            // WAV, MP3, AAC or anything else the browser can decode
+  codec: AudioCodec;      // MP4 only; WebM always uses Opus
+  bitrate: number;        // Bits per second
+  marker: string | null;  // Audio starts at this marker instead of the first frame
+  offset: number;         // Seconds added to the start point; negative skips into the audio
+  loop: boolean;          // Repeat the audio to fill the video; otherwise silence after it ends
+  fadeIn: number;         // Seconds
+  fadeOut: number;        // Seconds, ending where the audio stops
+}
+
+// Which part of the animation is exported, and how it is repeated
+export interface RangeOptions {
+  unit: 'frames' | 'seconds';   // Unit of start/end, counted from the animation's in point
+  start: number | null;         // null = beginning
+  end: number | null;           // null = end (exclusive)
+  marker: string | null;        // Named marker; overrides start/end
+  repeat: number;               // Plays of the segment (a ping-pong cycle counts as one)
+  targetDuration: number | null; // Seconds; loops the segment to this length instead of `repeat`
+  pingPong: boolean;            // Forward then reverse
+}
+
+// How Lottie time is sampled for each output frame
+export interface TimingOptions {
+  mode: 'exact' | 'frame-blend' | 'motion-blur';
+  samples: number;  // Motion blur: sub-frame samples accumulated per output frame
+  shutter: number;  // Motion blur: fraction of the frame interval the shutter is open (0.5 = 180°)
+}
+
+export enum BackgroundType {
+  SOLID = 'solid',
+  LINEAR_GRADIENT = 'linear',
+  RADIAL_GRADIENT = 'radial',
+  IMAGE = 'image',
+  VIDEO = 'video'
+}
+
+export interface BackgroundOptions {
+  type: BackgroundType;
+  color: string;          // Solid fill, also the first gradient stop
+  gradientTo: string;     // Second gradient stop
+  gradientAngle: number;  // Degrees, CSS convention (0 = bottom to top)
+  media?: File;           // Still image or video plate (looped)
+}
+
 export interface ConvertOptions {
   resolution: Resolution;
+  sizing: SizingOptions;
   fps: FrameRate;
+  format: OutputFormat;
+  codec: Codec;
+  encoding: EncodingOptions;
+  background: BackgroundOptions;
+  animated: AnimatedImageOptions;
+  image: ImageExportOptions;
+  audio: AudioOptions;
+  range: RangeOptions;
+  timing: TimingOptions;
+  renderer: RendererKind;
+  streamToDisk: boolean; // Write straight to a file (File System Access API) instead of memory
 }
 
 export interface ConversionStatus {
-  state: 'idle' | 'loading_ffmpeg' | 'rendering' | 'encoding' | 'completed' | 'error';
+  state: 'idle' | 'loading_ffmpeg' | 'rendering' | 'encoding' | 'paused' | 'completed' | 'cancelled' | 'error';
   progress: number; // 0 to 100
   message?: string;
   outputUrl?: string;
   error?: string;
 }
 
+// loading: animation + renderer setup; encoding: encoder setup (once per pass);
+// rendering: frames being rendered and encoded; finalizing: flushing and muxing
+export type ConversionPhase = 'loading' | 'encoding' | 'rendering' | 'finalizing';
+
+export interface ConversionProgress {
+  phase: ConversionPhase;
+  message: string;
+  percent: number;      // 0 to 100
+  encoder?: string;     // Encoder / container label, e.g. "H.264 MP4" (encoding phase)
+  width?: number;       // Output size of the current pass (encoding phase)
+  height?: number;
+  frame?: number;       // Output frames done (rendering phase)
+  totalFrames?: number;
+}
+
+export interface LoadedFile {
+  data: LottieFile;
+  name: string;
+}
+
+// One dataset row of a templated batch
+export interface TemplateRow {
+  values: Record<string, string>; // Column -> cell
+  index: number;                  // 1-based row number
+  pattern: string;                // Output file name pattern, e.g. "{name}_{resolution}"
+}
+
+export interface BatchJob {
+  id: string;
+  fileName: string;
+  data: LottieFile;
+  overrides: Partial<ConvertOptions>; // Applied on top of the shared options
+  template?: TemplateRow;             // Patched into `data` when the job runs
+  status: ConversionStatus;
+}
+
 export interface GeminiAnalysisResult {
   summary: string;
   technicalDetails: string;
@@ -0,0 +1,21 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+import pkg from './lib/package.json';
+
+// Builds the library entry (lib/index.ts) into lib/dist for publishing from lib/.
+// Runtime dependencies stay external; the npm package declares them.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: path.resolve(__dirname, 'lib/dist'),
+    emptyOutDir: true,
+    lib: {
+      entry: path.resolve(__dirname, 'lib/index.ts'),
+      formats: ['es'],
+      fileName: 'lottie2mp4',
+    },
+    rollupOptions: {
+      external: (id) => Object.keys(pkg.dependencies).some((dep) => id === dep || id.startsWith(`${dep}/`)),
+    },
+  },
+});